@@ -1,49 +1,32 @@
 
-import React, { useState, useEffect } from 'react';
-import { MovieInfo, GeneratedRecap, AppStatus, User } from './types';
-import { generateMovieRecap } from './services/geminiService';
-
-/** 
- * MANAGEMENT SECTION:
- * To authorize a user for specific devices:
- * 1. Log in with the username and password.
- * 2. If the device is not authorized, it will show you a "Device ID".
- * 3. Copy that ID and add it to the 'deviceIds' array for that user below.
- */
-const AUTHORIZED_USERS: Record<string, { pass: string; deviceIds: string[] }> = {
-  'admin': { 
-    pass: '0000', 
-    deviceIds: [] // EMPTY: This forces you to copy your phone's ID first!
-  },
-  'editor': {
-    pass: 'recap2025',
-    deviceIds: [] 
-  }
-};
-
-const TONES = ['Dramatic', 'Humorous', 'Analytical', 'Fast-paced', 'Suspenseful', 'Witty'];
-
-// Improved fingerprinting to be more unique to specific hardware
-const getDeviceFingerprint = (): string => {
-  const nav = window.navigator;
-  const screen = window.screen;
-  const idString = [
-    nav.userAgent,
-    nav.platform,
-    nav.hardwareConcurrency || 'unknown',
-    screen.width + 'x' + screen.height,
-    screen.availWidth + 'x' + screen.availHeight,
-    new Date().getTimezoneOffset(),
-    'v1' // Versioning the fingerprint logic
-  ].join('|');
-  
-  try {
-    // Generate a shorter, cleaner 12-character ID
-    return btoa(idString).replace(/[^a-zA-Z0-0]/g, '').slice(-12).toUpperCase();
-  } catch (e) {
-    return 'ERR-DEVICE-ID';
-  }
-};
+import React, { useState, useEffect, useRef } from 'react';
+import { MovieInfo, GeneratedRecap, AppStatus, User, SavedRecap, ProviderSettings, RecapLength, BatchJob, JobStatus } from './types';
+import { LENGTH_TARGETS } from './services/recapPrompt';
+import { generateMovieRecap, getProvider, describeModel, loadProviderSettings, saveProviderSettings } from './services/recapProvider';
+import { isAbortError } from './services/abort';
+import { RecapValidationError, formatIssue } from './services/recapValidator';
+import { saveRecap, updateRecap } from './services/libraryService';
+import { AuthError, bootstrapAdmin, endSession, getDeviceFingerprint, hasAnyUsers, login, restoreSession } from './services/authService';
+import { can, canModifyRecap } from './services/permissions';
+import { batchQueue } from './services/batchQueue';
+import { onOutboxRecapReady, outbox, requestNotificationPermission, shouldQueueOffline } from './services/outbox';
+import { isOnline, subscribeConnectivity } from './services/connectivity';
+import { applyAppUpdate, subscribeAppUpdate } from './services/pwa';
+import { Locale, LOCALES, createTranslator, loadLocale, localeDirection, saveLocale } from './services/i18n';
+import { OUTPUT_LANGUAGES } from './services/languages';
+import { guardStreamingRecap } from './services/spoilerGuard';
+import { StyleCache, allTones, applyHouseStyle, findHouseStyle, getStyles, latestTemplates, loadStyles } from './services/styleService';
+import RecapLibrary from './components/RecapLibrary';
+import AdminPanel from './components/AdminPanel';
+import UsagePanel from './components/UsagePanel';
+import BatchPanel from './components/BatchPanel';
+import ComparePanel from './components/ComparePanel';
+import ScoreDashboard from './components/ScoreDashboard';
+import StyleStudio from './components/StyleStudio';
+import ExportMenu from './components/ExportMenu';
+import NarrationPanel from './components/NarrationPanel';
+import RecapEditor from './components/RecapEditor';
+import ProviderPicker from './components/ProviderPicker';
 
 const App: React.FC = () => {
   // Auth State
@@ -51,11 +34,31 @@ const App: React.FC = () => {
   const [loginForm, setLoginForm] = useState({ username: '', password: '' });
   const [authError, setAuthError] = useState<string | null>(null);
   const [currentDeviceId, setCurrentDeviceId] = useState('');
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [authBusy, setAuthBusy] = useState(false);
 
   // App State
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
   const [recap, setRecap] = useState<GeneratedRecap | null>(null);
+  const [partialRecap, setPartialRecap] = useState<Partial<GeneratedRecap>>({});
+  const [savedEntry, setSavedEntry] = useState<SavedRecap | null>(null);
+  // Bumped whenever a different recap is shown, so the editor starts fresh.
+  const [recapSession, setRecapSession] = useState(0);
+  const [view, setView] = useState<'studio' | 'library' | 'admin' | 'usage' | 'batch' | 'styles' | 'compare' | 'scores'>('studio');
+  const [styles, setStyles] = useState<StyleCache>(getStyles);
+  const abortRef = useRef<AbortController | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [translations, setTranslations] = useState<Record<string, GeneratedRecap>>({});
+  const [sideBySide, setSideBySide] = useState(false);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const t = createTranslator(locale);
+  const [online, setOnline] = useState(isOnline);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [outboxJobs, setOutboxJobs] = useState<BatchJob[]>([]);
+  // Queued recaps that finished since they were requested, until opened or dismissed.
+  const [readyRecaps, setReadyRecaps] = useState<SavedRecap[]>([]);
   
   const [formData, setFormData] = useState<MovieInfo>({
     title: '',
@@ -71,88 +74,235 @@ const App: React.FC = () => {
     const fingerprint = getDeviceFingerprint();
     setCurrentDeviceId(fingerprint);
 
-    const savedUser = localStorage.getItem('cinerecap_user');
-    if (savedUser) {
-      const parsedUser: User = JSON.parse(savedUser);
-      if (parsedUser.deviceId === fingerprint) {
-        setUser(parsedUser);
-      } else {
-        localStorage.removeItem('cinerecap_user');
-      }
-    }
+    hasAnyUsers()
+      .then(any => setNeedsSetup(!any))
+      .catch(() => setAuthError(t('login.accountsUnavailable')));
+    restoreSession(fingerprint)
+      .then(restored => {
+        setUser(restored);
+        if (restored && !can(restored, 'recap:generate')) setView('library');
+      })
+      .catch(() => setUser(null));
   }, []);
 
-  const handleLogin = (e: React.FormEvent) => {
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = localeDirection(locale);
+  }, [locale]);
+
+  useEffect(() => subscribeConnectivity(setOnline), []);
+  useEffect(() => subscribeAppUpdate(setUpdateAvailable), []);
+
+  useEffect(() => {
+    if (user) loadStyles().then(setStyles).catch(err => console.warn('Could not load styles', err));
+  }, [user]);
+
+  // The batch queue keeps running in the background for whoever is signed in.
+  useEffect(() => {
+    if (!user || !can(user, 'recap:generate')) return;
+    batchQueue.attach(user.username);
+    return () => batchQueue.detach();
+  }, [user]);
+
+  // Recaps requested offline run once the connection returns, even from another view.
+  useEffect(() => {
+    if (!user || !can(user, 'recap:generate')) return;
+    outbox.attach(user.username);
+    const unsubscribe = outbox.subscribe(setOutboxJobs);
+    const stopReady = onOutboxRecapReady(entry => setReadyRecaps(prev => [...prev, entry]));
+    return () => {
+      unsubscribe();
+      stopReady();
+      outbox.detach();
+      setReadyRecaps([]);
+    };
+  }, [user]);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError(null);
+    setAuthBusy(true);
     
     const { username, password } = loginForm;
-    const config = AUTHORIZED_USERS[username];
-    
-    if (!config || config.pass !== password) {
-      setAuthError('Invalid username or password.');
-      return;
-    }
-
-    // Strict check: current device must be in the array
-    if (!config.deviceIds.includes(currentDeviceId)) {
-      setAuthError(`ACCESS DENIED: This device (${currentDeviceId}) is not registered for user "${username}".`);
-      return;
+    try {
+      // The very first account on a deployment becomes the admin for this device.
+      const loggedIn = needsSetup
+        ? await bootstrapAdmin(username, password, currentDeviceId)
+        : await login(username, password, currentDeviceId);
+      setNeedsSetup(false);
+      setUser(loggedIn);
+      // Viewers cannot generate, so they land on the saved recaps instead.
+      setView(can(loggedIn, 'recap:generate') ? 'studio' : 'library');
+    } catch (err: any) {
+      setAuthError(err instanceof AuthError ? err.message : t('login.failed'));
+    } finally {
+      setAuthBusy(false);
     }
-
-    const newUser: User = { username, deviceId: currentDeviceId };
-    setUser(newUser);
-    localStorage.setItem('cinerecap_user', JSON.stringify(newUser));
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('cinerecap_user');
+    abortRef.current?.abort();
+    endSession();
     setUser(null);
     setRecap(null);
     setStatus(AppStatus.IDLE);
+    setView('studio');
     setLoginForm({ username: '', password: '' });
   };
 
   const copyDeviceId = () => {
     navigator.clipboard.writeText(currentDeviceId);
-    alert('ID copied! Paste this into your authorized_users list.');
+    alert(t('login.idCopied'));
+  };
+
+  // Shows a freshly generated recap in the studio and files it in the library.
+  const showNewRecap = (movie: MovieInfo, result: GeneratedRecap) => {
+    setFormData(movie);
+    setRecap(result);
+    setTranslations({});
+    setSavedEntry(null);
+    setRecapSession(n => n + 1);
+    setError(null);
+    setStatus(AppStatus.COMPLETED);
+    setView('studio');
+    // A failed save must not hide a recap the user already paid for.
+    saveRecap(user!.username, movie, result, describeModel(providerSettings))
+      .then(setSavedEntry)
+      .catch(err => console.warn('Could not save recap to library', err));
+  };
+
+  const queueOffline = async (movie: MovieInfo) => {
+    void requestNotificationPermission();
+    try {
+      await outbox.enqueue([movie], providerSettings);
+      setPartialRecap({});
+      setStatus(AppStatus.IDLE);
+    } catch (err: any) {
+      setError(err.message || t('outbox.queueFailed'));
+      setErrorDetails([]);
+      setStatus(AppStatus.ERROR);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.title) return;
+    if (!formData.title || !can(user, 'recap:generate')) return;
+    if (shouldQueueOffline(providerSettings)) return queueOffline(formData);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setStatus(AppStatus.GENERATING);
     setError(null);
+    setErrorDetails([]);
+    setPartialRecap({});
 
     try {
-      const result = await generateMovieRecap(formData);
-      setRecap(result);
-      setStatus(AppStatus.COMPLETED);
+      const result = await generateMovieRecap(formData, providerSettings, {
+        signal: controller.signal,
+        onPartial: setPartialRecap
+      });
+      showNewRecap(formData, result);
     } catch (err: any) {
-      setError(err.message || 'Failed to generate recap.');
+      // Cancelling already returned the UI to IDLE; nothing to report.
+      if (isAbortError(err)) return;
+      // The connection dropped mid-request: try again from the outbox later.
+      if (shouldQueueOffline(providerSettings)) return queueOffline(formData);
+      setError(err.message || t('result.failedFallback'));
+      setErrorDetails(err instanceof RecapValidationError ? err.issues.map(formatIssue) : []);
       setStatus(AppStatus.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const changeProvider = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setPartialRecap({});
+    setStatus(AppStatus.IDLE);
+  };
+
   const resetForm = () => {
     setRecap(null);
     setStatus(AppStatus.IDLE);
   };
 
+  // Edits made in the editor are written back to the library entry when allowed.
+  const handleRecapChange = (next: GeneratedRecap) => {
+    setRecap(next);
+    if (savedEntry && canModifyRecap(user, savedEntry)) {
+      updateRecap({ ...savedEntry, recap: next })
+        .then(setSavedEntry)
+        .catch(err => console.warn('Could not update saved recap', err));
+    }
+  };
+
+  const handleTranslationsChange = (next: Record<string, GeneratedRecap>) => {
+    setTranslations(next);
+    if (savedEntry && canModifyRecap(user, savedEntry)) {
+      updateRecap({ ...savedEntry, translations: next })
+        .then(setSavedEntry)
+        .catch(err => console.warn('Could not update saved recap', err));
+    }
+  };
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  };
+
+  const localePicker = (
+    <select
+      aria-label={t('nav.interfaceLanguage')}
+      title={t('nav.interfaceLanguage')}
+      className="bg-transparent text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 focus:outline-none cursor-pointer"
+      value={locale}
+      onChange={e => changeLocale(e.target.value as Locale)}
+    >
+      {LOCALES.map(l => <option key={l.code} value={l.code} className="bg-slate-900">{l.label}</option>)}
+    </select>
+  );
+
+  const outboxStatus = (job: BatchJob): string => {
+    switch (job.status) {
+      case JobStatus.QUEUED: return online ? t('outbox.queued') : t('outbox.waiting');
+      case JobStatus.GENERATING: return t('outbox.generating');
+      case JobStatus.RETRY_WAIT: return t('outbox.retrying');
+      case JobStatus.COMPLETED: return t('outbox.saving');
+      case JobStatus.ERROR: return t('outbox.failed');
+    }
+  };
+
+  const openSavedRecap = (entry: SavedRecap) => {
+    setFormData(entry.movie);
+    setRecap(entry.recap);
+    setTranslations(entry.translations ?? {});
+    setSavedEntry(entry);
+    setRecapSession(n => n + 1);
+    setError(null);
+    setStatus(AppStatus.COMPLETED);
+    setView('studio');
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen bg-slate-950 flex items-center justify-center p-4 relative overflow-hidden">
         <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-amber-500/10 blur-[120px] rounded-full"></div>
         <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-orange-600/10 blur-[120px] rounded-full"></div>
 
+        <div className="absolute top-4 end-4 z-20">{localePicker}</div>
         <div className="w-full max-w-md glass-panel rounded-3xl p-8 md:p-10 shadow-2xl relative z-10 animate-in fade-in zoom-in duration-500">
           <div className="text-center mb-8">
             <div className="w-16 h-16 bg-amber-500 rounded-2xl flex items-center justify-center text-slate-950 font-bold text-3xl mx-auto mb-4 shadow-lg shadow-amber-500/20">
               C
             </div>
             <h1 className="text-3xl font-display font-bold text-white mb-2">CineRecap AI</h1>
-            <p className="text-slate-400 text-sm">Secure Movie Analysis Studio</p>
+            <p className="text-slate-400 text-sm">{needsSetup ? t('login.setupTitle') : t('login.subtitle')}</p>
           </div>
 
           <form onSubmit={handleLogin} className="space-y-6">
@@ -164,23 +314,23 @@ const App: React.FC = () => {
                   onClick={copyDeviceId}
                   className="block mt-2 text-amber-500 font-bold underline hover:text-amber-400"
                 >
-                  Click here to Copy ID
+                  {t('login.copyId')}
                 </button>
               </div>
             )}
             <div>
-              <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Username</label>
+              <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">{t('login.username')}</label>
               <input 
                 type="text"
                 required
                 className="w-full bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all text-white"
-                placeholder="Enter username"
+                placeholder={t('login.usernamePlaceholder')}
                 value={loginForm.username}
                 onChange={e => setLoginForm({...loginForm, username: e.target.value})}
               />
             </div>
             <div>
-              <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Password</label>
+              <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">{t('login.password')}</label>
               <input 
                 type="password"
                 required
@@ -192,14 +342,15 @@ const App: React.FC = () => {
             </div>
             <button
               type="submit"
-              className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-slate-950 font-bold py-4 rounded-xl transition-all shadow-lg shadow-amber-900/20 active:scale-[0.98]"
+              disabled={authBusy}
+              className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-slate-950 font-bold py-4 rounded-xl transition-all shadow-lg shadow-amber-900/20 active:scale-[0.98] disabled:opacity-50"
             >
-              Verify Identity
+              {authBusy ? t('login.verifying') : needsSetup ? t('login.createAdmin') : t('login.submit')}
             </button>
           </form>
 
           <div className="mt-8 pt-8 border-t border-slate-800 flex flex-col items-center gap-2">
-            <span className="text-[10px] text-slate-600 uppercase tracking-widest">Device Hardware Token</span>
+            <span className="text-[10px] text-slate-600 uppercase tracking-widest">{t('login.deviceToken')}</span>
             <code className="text-[10px] px-3 py-1 bg-slate-900 rounded-full text-amber-500 border border-slate-800 font-mono font-bold">
               {currentDeviceId}
             </code>
@@ -209,6 +360,8 @@ const App: React.FC = () => {
     );
   }
 
+  const streamed = guardStreamingRecap(formData, partialRecap);
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 selection:bg-amber-500/30 animate-in fade-in duration-700">
       <nav className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-md sticky top-0 z-50">
@@ -218,49 +371,249 @@ const App: React.FC = () => {
             <span className="text-xl font-display font-bold tracking-tight bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">CineRecap AI</span>
           </div>
           <div className="flex items-center gap-6">
-            <div className="flex items-center gap-3 pr-6 border-r border-slate-800">
+            {can(user, 'users:manage') && (
+              <button
+                onClick={() => setView(view === 'admin' ? 'studio' : 'admin')}
+                className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'admin' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+              >
+                {t('nav.users')}
+              </button>
+            )}
+            {can(user, 'usage:manage') && (
+              <button
+                onClick={() => setView(view === 'usage' ? 'studio' : 'usage')}
+                className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'usage' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+              >
+                {t('nav.usage')}
+              </button>
+            )}
+            {can(user, 'styles:edit') && (
+              <button
+                onClick={() => setView(view === 'styles' ? 'studio' : 'styles')}
+                className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'styles' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+              >
+                {t('nav.styles')}
+              </button>
+            )}
+            {can(user, 'recap:generate') && (
+              <button
+                onClick={() => setView(view === 'compare' ? 'studio' : 'compare')}
+                className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'compare' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+              >
+                {t('nav.compare')}
+              </button>
+            )}
+            {can(user, 'recap:generate') && (
+              <button
+                onClick={() => setView(view === 'batch' ? 'studio' : 'batch')}
+                className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'batch' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+              >
+                {t('nav.batch')}
+              </button>
+            )}
+            <button
+              onClick={() => setView(view === 'scores' ? 'studio' : 'scores')}
+              className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'scores' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+            >
+              {t('nav.scores')}
+            </button>
+            <button
+              onClick={() => setView(view === 'library' ? 'studio' : 'library')}
+              className={`text-xs font-bold uppercase tracking-wider transition-colors ${view === 'library' ? 'text-amber-500' : 'text-slate-500 hover:text-amber-400'}`}
+            >
+              {t('nav.library')}
+            </button>
+            <span
+              title={online ? t('net.online') : t('net.offlineHint')}
+              className={`flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider ${online ? 'text-slate-500' : 'text-orange-500'}`}
+            >
+              <span className={`w-2 h-2 rounded-full ${online ? 'bg-emerald-500' : 'bg-orange-500 animate-pulse'}`}></span>
+              <span className="hidden md:inline">{online ? t('net.online') : t('net.offline')}</span>
+            </span>
+            {localePicker}
+            <div className="flex items-center gap-3 pe-6 border-e border-slate-800">
                <div className="w-8 h-8 rounded-full bg-amber-500 flex items-center justify-center text-xs font-bold text-slate-950 border border-amber-500/20">
                 {user.username.charAt(0).toUpperCase()}
                </div>
                <span className="text-sm font-medium text-slate-300 hidden md:inline">{user.username}</span>
             </div>
-            <button onClick={handleLogout} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-red-400 transition-colors">Sign Out</button>
+            <button onClick={handleLogout} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-red-400 transition-colors">{t('nav.signOut')}</button>
           </div>
         </div>
       </nav>
 
       <main className="max-w-6xl mx-auto p-4 md:p-8">
+        {(updateAvailable || !online || readyRecaps.length > 0) && (
+          <div className="space-y-3 mb-6">
+            {updateAvailable && (
+              <div className="flex items-center justify-between gap-4 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3 text-sm text-amber-400">
+                <span>{t('update.available')}</span>
+                <button onClick={() => applyAppUpdate()} className="text-xs font-bold uppercase tracking-wider hover:text-white transition-colors">{t('update.reload')}</button>
+              </div>
+            )}
+            {!online && (
+              <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl px-4 py-3 text-sm text-orange-400">{t('net.offlineHint')}</div>
+            )}
+            {readyRecaps.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 bg-emerald-500/10 border border-emerald-500/20 rounded-xl px-4 py-3 text-sm text-emerald-400">
+                <span className="truncate">{t('outbox.ready', { title: entry.movie.title })}</span>
+                <div className="flex gap-4 shrink-0">
+                  <button
+                    onClick={() => {
+                      setReadyRecaps(prev => prev.filter(e => e.id !== entry.id));
+                      openSavedRecap(entry);
+                    }}
+                    className="text-xs font-bold uppercase tracking-wider hover:text-white transition-colors"
+                  >
+                    {t('outbox.open')}
+                  </button>
+                  <button onClick={() => setReadyRecaps(prev => prev.filter(e => e.id !== entry.id))} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-white transition-colors">{t('result.dismiss')}</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {view === 'admin' && can(user, 'users:manage') ? (
+          <AdminPanel currentUser={user} onClose={() => setView('studio')} />
+        ) : view === 'usage' && can(user, 'usage:manage') ? (
+          <UsagePanel currentUser={user} onClose={() => setView('studio')} />
+        ) : view === 'styles' && can(user, 'styles:edit') ? (
+          <StyleStudio user={user} styles={styles} onStylesChange={setStyles} onClose={() => setView('studio')} />
+        ) : view === 'compare' && can(user, 'recap:generate') ? (
+          <ComparePanel base={formData} settings={providerSettings} t={t} tones={allTones().map(t => t.name)} onOpen={showNewRecap} onClose={() => setView('studio')} />
+        ) : view === 'batch' && can(user, 'recap:generate') ? (
+          <BatchPanel defaults={formData} settings={providerSettings} onClose={() => setView('studio')} />
+        ) : view === 'scores' ? (
+          <ScoreDashboard user={user} onClose={() => setView('studio')} />
+        ) : view === 'library' ? (
+          <RecapLibrary user={user} tones={allTones().map(t => t.name)} onOpen={openSavedRecap} onClose={() => setView('studio')} />
+        ) : (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
-          <div className={`lg:col-span-5 space-y-6 ${status === AppStatus.COMPLETED ? 'hidden lg:block opacity-50 pointer-events-none' : ''}`}>
+          <div className={`lg:col-span-5 space-y-6 ${status === AppStatus.COMPLETED ? (sideBySide ? 'hidden' : 'hidden lg:block opacity-50 pointer-events-none') : ''}`}>
             <div className="glass-panel rounded-2xl p-6 md:p-8">
-              <h2 className="text-2xl font-display font-bold mb-6 text-white">Input Details</h2>
+              <h2 className="text-2xl font-display font-bold mb-6 text-white">{t('form.heading')}</h2>
+              {!can(user, 'recap:generate') && (
+                <p className="mb-5 bg-slate-900/60 border border-slate-800 rounded-xl p-4 text-xs text-slate-400">{t('form.readOnly')}</p>
+              )}
               <form onSubmit={handleSubmit} className="space-y-5">
-                <div>
-                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1.5">Movie Title</label>
-                  <input type="text" required placeholder="e.g. Inception" className="w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all text-white" value={formData.title} onChange={e => setFormData({...formData, title: e.target.value})} />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <input type="text" placeholder="Genre" className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={formData.genre} onChange={e => setFormData({...formData, genre: e.target.value})} />
-                  <input type="text" placeholder="Director" className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={formData.director} onChange={e => setFormData({...formData, director: e.target.value})} />
-                </div>
-                <textarea rows={4} placeholder="Plot points, twists, or key scenes..." className="w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 resize-none focus:outline-none text-white" value={formData.keyPlotPoints} onChange={e => setFormData({...formData, keyPlotPoints: e.target.value})} />
-                <div className="flex items-center gap-4">
-                    <select className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none appearance-none text-white" value={formData.tone} onChange={e => setFormData({...formData, tone: e.target.value})}>
-                        {TONES.map(t => <option key={t} value={t} className="bg-slate-900">{t}</option>)}
-                    </select>
-                    <label className="flex items-center gap-2 cursor-pointer">
-                        <input type="checkbox" checked={formData.includeSpoilers} onChange={e => setFormData({...formData, includeSpoilers: e.target.checked})} className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-amber-500" />
-                        <span className="text-xs font-semibold">Spoilers</span>
-                    </label>
-                </div>
-                <button type="submit" disabled={status === AppStatus.GENERATING} className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-slate-950 font-bold py-4 rounded-xl shadow-lg shadow-amber-900/20 active:scale-95 disabled:opacity-50 transition-all">
-                    {status === AppStatus.GENERATING ? 'Generating Professional Recap...' : 'Create Recap'}
-                </button>
+                <fieldset disabled={!can(user, 'recap:generate')} className="space-y-5 disabled:opacity-50">
+                  <div>
+                    <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1.5">{t('form.title')}</label>
+                    <input type="text" required placeholder={t('form.titlePlaceholder')} className="w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all text-white" value={formData.title} onChange={e => setFormData({...formData, title: e.target.value})} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input type="text" placeholder={t('form.genre')} className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={formData.genre} onChange={e => setFormData({...formData, genre: e.target.value})} />
+                    <input type="text" placeholder={t('form.director')} className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={formData.director} onChange={e => setFormData({...formData, director: e.target.value})} />
+                  </div>
+                  <textarea rows={4} placeholder={t('form.plotPlaceholder')} className="w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 resize-none focus:outline-none text-white" value={formData.keyPlotPoints} onChange={e => setFormData({...formData, keyPlotPoints: e.target.value})} />
+                  {(styles.houseStyles.length > 0 || latestTemplates().length > 1) && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <select
+                          className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none appearance-none text-white text-sm"
+                          value={formData.houseStyleId ?? ''}
+                          onChange={e => {
+                            const style = findHouseStyle(e.target.value);
+                            setFormData(style ? applyHouseStyle(formData, style) : {...formData, houseStyleId: undefined});
+                          }}
+                        >
+                          <option value="" className="bg-slate-900">{t('form.noHouseStyle')}</option>
+                          {styles.houseStyles.map(s => <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>)}
+                        </select>
+                        <select
+                          className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none appearance-none text-white text-sm"
+                          value={formData.templateName ?? ''}
+                          onChange={e => setFormData({...formData, templateName: e.target.value || undefined})}
+                        >
+                          <option value="" className="bg-slate-900">{t('form.defaultTemplate')}</option>
+                          {latestTemplates().slice(1).map(t => <option key={t.name} value={t.name} className="bg-slate-900">{t.name} (v{t.version})</option>)}
+                        </select>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-4">
+                      <select className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none appearance-none text-white" value={formData.tone} onChange={e => setFormData({...formData, tone: e.target.value})}>
+                          {allTones().map(t => <option key={t.name} value={t.name} title={t.description} className="bg-slate-900">{t.name}</option>)}
+                      </select>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                          <input type="checkbox" checked={formData.includeSpoilers} onChange={e => setFormData({...formData, includeSpoilers: e.target.checked})} className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-amber-500" />
+                          <span className="text-xs font-semibold">{t('form.spoilers')}</span>
+                      </label>
+                  </div>
+                  {!formData.includeSpoilers && (
+                    <div className="flex items-center justify-between gap-4 text-xs">
+                        <span className="text-slate-500">{t('form.leakedSpoilers')}</span>
+                        <div className="flex gap-2">
+                          {(['blur', 'strip'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              type="button"
+                              onClick={() => setFormData({...formData, spoilerMode: mode})}
+                              title={mode === 'blur' ? t('form.blurHint') : t('form.stripHint')}
+                              className={`px-3 py-1 rounded-lg border font-bold uppercase tracking-wider transition-colors ${(formData.spoilerMode ?? 'blur') === mode ? 'bg-amber-500/10 border-amber-500/40 text-amber-500' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                            >
+                              {mode === 'blur' ? t('form.blur') : t('form.strip')}
+                            </button>
+                          ))}
+                        </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-3 gap-2">
+                      {(Object.keys(LENGTH_TARGETS) as RecapLength[]).map(len => (
+                          <button
+                            key={len}
+                            type="button"
+                            onClick={() => setFormData({...formData, length: len})}
+                            className={`py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${formData.length === len ? 'bg-amber-500/10 border-amber-500/40 text-amber-500' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                          >
+                            {t(`form.length.${len}`)}
+                            <span className="block text-[9px] font-mono normal-case tracking-normal opacity-70">{t('form.words', { range: LENGTH_TARGETS[len].summary.join('–') })}</span>
+                          </button>
+                      ))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4 text-xs">
+                      <label htmlFor="output-language" className="text-slate-500">{t('form.outputLanguage')}</label>
+                      <select
+                        id="output-language"
+                        className="bg-slate-800/50 border border-slate-700 rounded-xl px-3 py-2 focus:outline-none appearance-none text-white"
+                        value={formData.language ?? 'en'}
+                        onChange={e => setFormData({...formData, language: e.target.value === 'en' ? undefined : e.target.value})}
+                      >
+                        {OUTPUT_LANGUAGES.map(l => <option key={l.code} value={l.code} className="bg-slate-900">{l.nativeName}</option>)}
+                      </select>
+                  </div>
+                  <ProviderPicker value={providerSettings} onChange={changeProvider} disabled={status === AppStatus.GENERATING} />
+                  <button type="submit" disabled={status === AppStatus.GENERATING} className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-slate-950 font-bold py-4 rounded-xl shadow-lg shadow-amber-900/20 active:scale-95 disabled:opacity-50 transition-all">
+                      {status === AppStatus.GENERATING ? t('form.generating') : shouldQueueOffline(providerSettings) ? t('form.queue') : t('form.submit')}
+                  </button>
+                </fieldset>
               </form>
             </div>
+            {outboxJobs.length > 0 && (
+              <div className="glass-panel rounded-2xl p-6 space-y-3">
+                <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('outbox.heading')}</h3>
+                <ul className="space-y-2">
+                  {outboxJobs.map(job => (
+                    <li key={job.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-white font-medium truncate">{job.movie.title}</p>
+                        <p className={`text-[10px] font-mono ${job.status === JobStatus.ERROR ? 'text-red-400' : 'text-slate-500'}`} title={job.error}>{outboxStatus(job)}</p>
+                      </div>
+                      <div className="flex gap-3 shrink-0">
+                        {job.status === JobStatus.ERROR && (
+                          <button onClick={() => outbox.retry([job.id])} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">{t('outbox.retry')}</button>
+                        )}
+                        {/* A completed job holds the only copy of its recap until it reaches the library. */}
+                        {job.status !== JobStatus.COMPLETED && (
+                          <button onClick={() => outbox.remove([job.id])} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-red-400 transition-colors">{t('outbox.remove')}</button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
-          <div className="lg:col-span-7">
+          <div className={status === AppStatus.COMPLETED && sideBySide ? 'lg:col-span-12' : 'lg:col-span-7'}>
             {status === AppStatus.IDLE && (
               <div className="h-full flex flex-col items-center justify-center p-12 glass-panel rounded-2xl border-dashed border-slate-700">
                 <div className="w-16 h-16 bg-slate-800/50 rounded-full flex items-center justify-center mb-4 text-slate-600">
@@ -268,54 +621,90 @@ const App: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                   </svg>
                 </div>
-                <p className="text-slate-500 text-center font-medium">No active recap.<br/><span className="text-[10px] mt-2 block opacity-50 uppercase tracking-widest font-mono">Secure ID: {user.deviceId}</span></p>
+                <p className="text-slate-500 text-center font-medium">{t('result.empty')}<br/><span className="text-[10px] mt-2 block opacity-50 uppercase tracking-widest font-mono">{t('result.secureId', { id: user.deviceId })}</span></p>
               </div>
             )}
             
-            {status === AppStatus.GENERATING && (
+            {status === AppStatus.ERROR && (
+              <div className="h-full flex flex-col items-center justify-center p-12 glass-panel rounded-2xl border-red-500/20">
+                <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center mb-4 text-red-400 text-2xl font-bold">!</div>
+                <h3 className="text-xl font-display font-bold text-white mb-2">{t('result.failed')}</h3>
+                <p className="text-slate-400 text-center text-sm mb-4">{error}</p>
+                {errorDetails.length > 1 && (
+                  <ul className="w-full max-w-sm bg-red-500/10 border border-red-500/20 rounded-xl p-4 mb-4 space-y-1 text-xs text-red-400 font-mono">
+                    {errorDetails.map(detail => <li key={detail}>{detail}</li>)}
+                  </ul>
+                )}
+                <button onClick={resetForm} className="px-6 py-2 border border-slate-700 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-white transition-colors">{t('result.dismiss')}</button>
+              </div>
+            )}
+
+            {status === AppStatus.GENERATING && !partialRecap.tagline && !partialRecap.summary && (
               <div className="h-full flex flex-col items-center justify-center p-12 glass-panel rounded-2xl">
                 <div className="relative w-20 h-20 mb-6">
                   <div className="absolute inset-0 border-4 border-amber-500/20 rounded-full"></div>
                   <div className="absolute inset-0 border-4 border-amber-500 rounded-full border-t-transparent animate-spin"></div>
                 </div>
-                <h3 className="text-xl font-display font-bold text-white mb-2">Analyzing the Story</h3>
-                <p className="text-slate-400 text-center text-sm">Gemini AI is crafting a high-quality summary...</p>
+                <h3 className="text-xl font-display font-bold text-white mb-2">{t('result.analyzing')}</h3>
+                <p className="text-slate-400 text-center text-sm mb-6">{t('result.crafting', { provider: getProvider(providerSettings.providerId).label })}</p>
+                <button onClick={cancelGeneration} className="px-6 py-2 border border-slate-700 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-red-400 hover:border-red-500/30 transition-colors">{t('result.cancel')}</button>
               </div>
             )}
 
-            {status === AppStatus.COMPLETED && recap && (
-               <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
-                 <div className="space-y-4">
-                    <div className="flex items-center gap-3">
-                      <span className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-full text-[10px] font-bold text-amber-500 uppercase tracking-widest">Analysis Ready</span>
-                    </div>
-                    <h1 className="text-4xl font-display font-bold text-white leading-tight">{formData.title}</h1>
-                    <p className="text-2xl font-display italic text-slate-400 border-l-4 border-amber-500 pl-6 leading-relaxed">"{recap.tagline}"</p>
-                 </div>
-                 <div className="bg-slate-900/40 p-8 rounded-2xl border border-slate-800/50 text-slate-300 leading-relaxed text-lg whitespace-pre-wrap shadow-inner">
-                    {recap.summary}
-                 </div>
-                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {status === AppStatus.GENERATING && (partialRecap.tagline || partialRecap.summary) && (
+              <div className="space-y-8 animate-in fade-in duration-500">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-full text-[10px] font-bold text-amber-500 uppercase tracking-widest animate-pulse">{t('result.writing')}</span>
+                    <button onClick={cancelGeneration} className="text-xs font-bold uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors">{t('result.cancel')}</button>
+                  </div>
+                  <h1 className="text-4xl font-display font-bold text-white leading-tight">{formData.title}</h1>
+                  {partialRecap.tagline && (
+                    <p className="text-2xl font-display italic text-slate-400 border-s-4 border-amber-500 ps-6 leading-relaxed">"{partialRecap.tagline}"</p>
+                  )}
+                </div>
+                {streamed.summary && (
+                  <div className="bg-slate-900/40 p-8 rounded-2xl border border-slate-800/50 text-slate-300 leading-relaxed text-lg whitespace-pre-wrap shadow-inner">
+                    {streamed.summary}
+                  </div>
+                )}
+                {(streamed.characterAnalysis || streamed.verdict) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="glass-panel p-6 rounded-2xl">
-                        <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest mb-4 flex items-center gap-2">
-                          <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>
-                          Character Spotlight
-                        </h4>
-                        <p className="text-sm text-slate-400 leading-relaxed">{recap.characterAnalysis}</p>
+                      <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest mb-4">{t('result.characters')}</h4>
+                      <p className="text-sm text-slate-400 leading-relaxed">{streamed.characterAnalysis}</p>
                     </div>
                     <div className="glass-panel p-6 rounded-2xl">
-                        <h4 className="font-bold text-orange-500 text-xs uppercase tracking-widest mb-4 flex items-center gap-2">
-                          <span className="w-1.5 h-1.5 rounded-full bg-orange-500"></span>
-                          Critical Verdict
-                        </h4>
-                        <p className="text-sm text-white italic leading-relaxed">{recap.verdict}</p>
+                      <h4 className="font-bold text-orange-500 text-xs uppercase tracking-widest mb-4">{t('result.verdict')}</h4>
+                      <p className="text-sm text-white italic leading-relaxed">{streamed.verdict}</p>
                     </div>
-                 </div>
-                 <button onClick={resetForm} className="w-full py-4 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl transition-all text-sm font-bold uppercase tracking-widest text-slate-400">Finish Session & Start New</button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {status === AppStatus.COMPLETED && recap && (
+               <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                 <RecapEditor
+                   key={recapSession}
+                   movie={formData}
+                   initialRecap={recap}
+                   settings={providerSettings}
+                   editable={can(user, 'recap:generate')}
+                   onChange={handleRecapChange}
+                   translations={translations}
+                   onTranslationsChange={handleTranslationsChange}
+                   onSideBySideChange={setSideBySide}
+                   t={t}
+                 />
+                 <ExportMenu movie={formData} recap={recap} t={t} />
+                 <NarrationPanel movie={formData} recap={recap} t={t} />
+                 <button onClick={resetForm} className="w-full py-4 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl transition-all text-sm font-bold uppercase tracking-widest text-slate-400">{t('result.finish')}</button>
                </div>
             )}
           </div>
         </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { DeviceRequest, Role, StoredUser, User } from '../types';
+import {
+  createUser,
+  deleteUser,
+  exportUsers,
+  importUsers,
+  listDeviceRequests,
+  listUsers,
+  resolveDeviceRequest,
+  revokeDevice,
+  setPassword,
+  setRole
+} from '../services/authService';
+import { ROLES, ROLE_LABELS, assertCan } from '../services/permissions';
+import { downloadText } from '../services/download';
+
+interface AdminPanelProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 text-white text-sm';
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 transition-colors';
+
+const AdminPanel: React.FC<AdminPanelProps> = ({ currentUser, onClose }) => {
+  const [users, setUsers] = useState<StoredUser[]>([]);
+  const [requests, setRequests] = useState<DeviceRequest[]>([]);
+  const [newUser, setNewUser] = useState<{ username: string; password: string; role: Role }>({ username: '', password: '', role: 'editor' });
+  const [passphrase, setPassphrase] = useState('');
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const refresh = async () => {
+    const [u, r] = await Promise.all([listUsers(), listDeviceRequests()]);
+    setUsers(u.sort((a, b) => a.username.localeCompare(b.username)));
+    setRequests(r.filter(req => req.status === 'pending').sort((a, b) => a.requestedAt - b.requestedAt));
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  // Runs an admin action, then reloads the registry and reports the outcome.
+  const run = async (action: () => Promise<string | void>) => {
+    setMessage(null);
+    try {
+      assertCan(currentUser, 'users:manage');
+      const ok = await action();
+      if (ok) setMessage({ kind: 'ok', text: ok });
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message || 'Action failed.' });
+    }
+    await refresh();
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await createUser(newUser.username, newUser.password, newUser.role);
+      setNewUser({ username: '', password: '', role: 'editor' });
+      return `Created "${newUser.username}". Their first login will request device enrollment.`;
+    });
+  };
+
+  const handleResetPassword = (username: string) => {
+    const password = prompt(`New password for "${username}" (min. 8 characters):`);
+    if (password) run(async () => { await setPassword(username, password); return 'Password updated.'; });
+  };
+
+  const handleDelete = (username: string) => {
+    if (confirm(`Remove user "${username}" and all their devices?`)) run(() => deleteUser(username));
+  };
+
+  const handleExport = () => run(async () => {
+    if (!passphrase) throw new Error('Enter a signing passphrase first.');
+    downloadText(`cinerecap-users-${new Date().toISOString().slice(0, 10)}.json`, await exportUsers(passphrase));
+    return 'Signed user list downloaded.';
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      if (!passphrase) throw new Error('Enter the passphrase the file was signed with.');
+      const count = await importUsers(await file.text(), passphrase);
+      return `Imported ${count} user${count === 1 ? '' : 's'}.`;
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Users & Devices</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl text-xs font-medium border ${message.kind === 'ok' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Pending Device Requests</h3>
+        {requests.length === 0 && <p className="text-sm text-slate-500">No devices are waiting for approval.</p>}
+        {requests.map(req => (
+          <div key={req.id} className="flex items-center gap-4 bg-slate-900/40 border border-slate-800/50 rounded-xl p-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white font-bold">{req.username}</p>
+              <p className="text-[10px] text-slate-500 font-mono">{req.deviceId} · {new Date(req.requestedAt).toLocaleString()}</p>
+            </div>
+            <button onClick={() => run(async () => { await resolveDeviceRequest(req, true); })} className={`${smallButton} hover:text-emerald-400`}>Approve</button>
+            <button onClick={() => run(async () => { await resolveDeviceRequest(req, false); })} className={`${smallButton} hover:text-red-400`}>Deny</button>
+          </div>
+        ))}
+      </section>
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Accounts</h3>
+        {users.map(u => (
+          <div key={u.username} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <span className="flex-1 text-sm font-bold text-white">{u.username}</span>
+              {/* Admins cannot change their own role, so a deployment never loses its last admin by accident. */}
+              <select
+                className="bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-xs font-bold uppercase tracking-wider text-amber-500 focus:outline-none disabled:opacity-50"
+                value={u.role}
+                disabled={u.username === currentUser.username}
+                onChange={e => run(async () => { await setRole(u.username, e.target.value as Role); })}
+              >
+                {ROLES.map(r => <option key={r} value={r} className="bg-slate-900">{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button onClick={() => handleResetPassword(u.username)} className={`${smallButton} hover:text-white`}>Reset Password</button>
+              {u.username !== currentUser.username && (
+                <button onClick={() => handleDelete(u.username)} className={`${smallButton} hover:text-red-400`}>Remove</button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {u.deviceIds.length === 0 && <span className="text-[10px] text-slate-600 uppercase tracking-widest">No enrolled devices</span>}
+              {u.deviceIds.map(id => (
+                <span key={id} className="flex items-center gap-2 text-[10px] px-3 py-1 bg-slate-900 rounded-full text-amber-500 border border-slate-800 font-mono font-bold">
+                  {id}
+                  <button onClick={() => run(async () => { await revokeDevice(u.username, id); })} title="Revoke device" className="text-slate-500 hover:text-red-400">×</button>
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-3 pt-2">
+          <input required placeholder="Username" className={inputClass} value={newUser.username} onChange={e => setNewUser({ ...newUser, username: e.target.value })} />
+          <input required type="password" placeholder="Password" className={inputClass} value={newUser.password} onChange={e => setNewUser({ ...newUser, password: e.target.value })} />
+          <select className={`${inputClass} appearance-none`} value={newUser.role} onChange={e => setNewUser({ ...newUser, role: e.target.value as Role })}>
+            {ROLES.map(r => <option key={r} value={r} className="bg-slate-900">{ROLE_LABELS[r]}</option>)}
+          </select>
+          <button type="submit" className="bg-amber-500 hover:bg-amber-400 text-slate-950 font-bold rounded-xl text-sm transition-colors">Add User</button>
+        </form>
+      </section>
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Move Between Deployments</h3>
+        <p className="text-xs text-slate-500">Exports are signed with the passphrase below. Use the same passphrase to import them elsewhere.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input type="password" placeholder="Signing passphrase" className={inputClass} value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+          <button onClick={handleExport} className={`${smallButton} hover:text-white`}>Export Users</button>
+          <label className={`${smallButton} hover:text-white text-center cursor-pointer`}>
+            Import Users
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { BatchJob, JobStatus, MovieInfo, ProviderSettings } from '../types';
+import { ImportResult, importMovies } from '../services/batchImport';
+import { batchQueue } from '../services/batchQueue';
+import { buildBatchZip, toBatchJson } from '../services/exportService';
+import { downloadBlob, downloadText } from '../services/download';
+
+interface BatchPanelProps {
+  defaults: MovieInfo;
+  settings: ProviderSettings;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'text-slate-400 border-slate-700',
+  [JobStatus.GENERATING]: 'text-amber-500 border-amber-500/30 animate-pulse',
+  [JobStatus.RETRY_WAIT]: 'text-orange-500 border-orange-500/30',
+  [JobStatus.COMPLETED]: 'text-emerald-400 border-emerald-500/30',
+  [JobStatus.ERROR]: 'text-red-400 border-red-500/30'
+};
+
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-white transition-colors disabled:opacity-40';
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ defaults, settings, onClose }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => batchQueue.subscribe((list, isPaused) => {
+    setJobs(list);
+    setPaused(isPaused);
+  }), []);
+
+  const completed = jobs.filter(job => job.status === JobStatus.COMPLETED && job.result);
+  const failed = jobs.filter(job => job.status === JobStatus.ERROR);
+  const finishedCount = completed.length + failed.length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setPreview(importMovies(await file.text(), file.name, defaults));
+  };
+
+  const handleQueue = async () => {
+    if (!preview?.rows.length) return;
+    try {
+      await batchQueue.enqueue(preview.rows, settings);
+      setPreview(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not queue these films.');
+    }
+  };
+
+  const bundle = () => completed.map(job => ({ movie: job.movie, recap: job.result! }));
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Batch Recaps</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+      </div>
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Import</h3>
+        <p className="text-xs text-slate-500">
+          CSV with a header row, or a JSON array. Columns: <code className="text-slate-400">title, genre, director, keyPlotPoints, tone, includeSpoilers, length</code>.
+          Only title is required; tone and length default to the studio form.
+        </p>
+        <label className={`${smallButton} inline-block cursor-pointer`}>
+          Choose File
+          <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+        </label>
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-white">{preview.rows.length} film{preview.rows.length === 1 ? '' : 's'} ready{preview.errors.length > 0 && `, ${preview.errors.length} row${preview.errors.length === 1 ? '' : 's'} skipped`}.</p>
+            {preview.errors.length > 0 && (
+              <ul className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-1 text-xs text-red-400 font-mono max-h-40 overflow-y-auto">
+                {preview.errors.map((err, i) => <li key={i}>{err.row ? `Row ${err.row}: ` : ''}{err.message}</li>)}
+              </ul>
+            )}
+            <div className="flex gap-3">
+              <button onClick={handleQueue} disabled={!preview.rows.length} className="px-5 py-2 rounded-xl bg-amber-500 hover:bg-amber-400 text-slate-950 text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50">Add to Queue</button>
+              <button onClick={() => setPreview(null)} className={smallButton}>Discard</button>
+            </div>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </section>
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="flex-1 font-bold text-amber-500 text-xs uppercase tracking-widest">
+            Queue · {finishedCount}/{jobs.length} done{paused && ' · paused'}
+          </h3>
+          <button onClick={paused ? batchQueue.resume : batchQueue.pause} className={smallButton}>{paused ? 'Resume' : 'Pause'}</button>
+          <button onClick={() => batchQueue.retry(failed.map(job => job.id))} disabled={!failed.length} className={smallButton}>Retry Failed</button>
+          <button onClick={batchQueue.clearCompleted} disabled={!completed.length} className={smallButton}>Clear Done</button>
+        </div>
+
+        {jobs.length === 0 && <p className="text-sm text-slate-500">The queue is empty.</p>}
+        <ul className="space-y-2">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center gap-3 bg-slate-900/40 border border-slate-800/50 rounded-xl p-3">
+              <span className={`px-2 py-0.5 border rounded-full text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[job.status]}`}>
+                {job.status.replace('_', ' ')}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{job.movie.title}</p>
+                {job.error && (
+                  <p className="text-[10px] text-slate-500 truncate" title={job.error}>
+                    {job.status === JobStatus.RETRY_WAIT && job.nextAttemptAt
+                      ? `Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()} (attempt ${job.attempts + 1}) · `
+                      : ''}
+                    {job.error}
+                  </p>
+                )}
+              </div>
+              {job.status === JobStatus.ERROR && (
+                <button onClick={() => batchQueue.retry([job.id])} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-amber-400">Retry</button>
+              )}
+              <button onClick={() => batchQueue.remove([job.id])} title="Remove" className="text-slate-500 hover:text-red-400">×</button>
+            </li>
+          ))}
+        </ul>
+
+        {completed.length > 0 && (
+          <div className="grid grid-cols-2 gap-3 pt-2">
+            <button onClick={() => downloadBlob(`cinerecap-batch-${stamp()}.zip`, buildBatchZip(bundle()))} className="py-3 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-300 transition-colors">
+              Download Zip ({completed.length})
+            </button>
+            <button onClick={() => downloadText(`cinerecap-batch-${stamp()}.json`, toBatchJson(bundle()))} className="py-3 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-300 transition-colors">
+              Download JSON
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default BatchPanel;
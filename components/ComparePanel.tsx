@@ -0,0 +1,322 @@
+import React, { useRef, useState } from 'react';
+import { GeneratedRecap, MovieInfo, ProviderSettings, RecapLength, RecapSection } from '../types';
+import { generateMovieRecap } from '../services/recapProvider';
+import { LENGTH_TARGETS } from '../services/recapPrompt';
+import {
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  SectionPicks,
+  VariantSpec,
+  VersusResult,
+  generateVersus,
+  mergeVariants,
+  mergedSpec,
+  pickAll,
+  variantMovie
+} from '../services/comparisonService';
+import { slugify, toVersusMarkdown } from '../services/exportService';
+import { downloadText } from '../services/download';
+import { isAbortError } from '../services/abort';
+import { scorecardText } from '../services/scorecards';
+import { Translator } from '../services/i18n';
+import RecapView, { SECTION_TITLE_KEYS } from './RecapView';
+
+interface ComparePanelProps {
+  base: MovieInfo;
+  settings: ProviderSettings;
+  tones: string[];
+  onOpen: (movie: MovieInfo, recap: GeneratedRecap) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+interface VariantResult {
+  status: 'generating' | 'done' | 'error' | 'cancelled';
+  recap?: GeneratedRecap;
+  error?: string;
+}
+
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-white transition-colors disabled:opacity-40';
+const primaryButton = 'px-5 py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-600 text-slate-950 text-xs font-bold uppercase tracking-wider shadow-lg shadow-amber-900/20 active:scale-95 disabled:opacity-50 transition-all';
+const field = 'w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white text-sm';
+
+// Tailwind needs literal class names, so column counts are spelled out.
+const COLUMN_CLASSES: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4'
+};
+
+const sectionText = (recap: GeneratedRecap, section: RecapSection): string => {
+  switch (section) {
+    case 'keyTakeaways': return recap.keyTakeaways.map(t => `• ${t}`).join('\n');
+    case 'scorecard': return recap.scorecard ? scorecardText(recap.scorecard).split(' · ').join('\n') : '—';
+    default: return recap[section];
+  }
+};
+
+const FilmFields: React.FC<{ label: string; movie: MovieInfo; onChange: (movie: MovieInfo) => void; disabled: boolean; t: Translator }> = ({ label, movie, onChange, disabled, t }) => (
+  <fieldset disabled={disabled} className="space-y-3 disabled:opacity-50">
+    <legend className="font-bold text-amber-500 text-xs uppercase tracking-widest mb-3">{label}</legend>
+    <input className={field} placeholder={t('form.title')} required value={movie.title} onChange={e => onChange({ ...movie, title: e.target.value })} />
+    <div className="grid grid-cols-2 gap-3">
+      <input className={field} placeholder={t('form.genre')} value={movie.genre} onChange={e => onChange({ ...movie, genre: e.target.value })} />
+      <input className={field} placeholder={t('form.director')} value={movie.director} onChange={e => onChange({ ...movie, director: e.target.value })} />
+    </div>
+    <textarea rows={3} className={`${field} resize-none`} placeholder={t('form.plotPlaceholder')} value={movie.keyPlotPoints} onChange={e => onChange({ ...movie, keyPlotPoints: e.target.value })} />
+  </fieldset>
+);
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ base, settings, tones, onOpen, onClose, t }) => {
+  const [mode, setMode] = useState<'variants' | 'versus'>('variants');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Variants
+  const [specs, setSpecs] = useState<VariantSpec[]>(() => [
+    { tone: base.tone, length: base.length },
+    { tone: tones.find(tone => tone !== base.tone) ?? base.tone, length: base.length }
+  ]);
+  const [runSpecs, setRunSpecs] = useState<VariantSpec[]>([]);
+  const [results, setResults] = useState<VariantResult[]>([]);
+  const [picks, setPicks] = useState<SectionPicks>(() => pickAll(0));
+
+  // Versus
+  const [films, setFilms] = useState<[MovieInfo, MovieInfo]>(() => [
+    { ...base },
+    { ...base, title: '', director: '', keyPlotPoints: '' }
+  ]);
+  const [versus, setVersus] = useState<VersusResult | null>(null);
+
+  const start = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(true);
+    setError(null);
+    return controller.signal;
+  };
+
+  const finish = () => {
+    abortRef.current = null;
+    setBusy(false);
+  };
+
+  const updateSpec = (index: number, patch: Partial<VariantSpec>) =>
+    setSpecs(prev => prev.map((spec, i) => (i === index ? { ...spec, ...patch } : spec)));
+
+  const runVariants = async () => {
+    if (!base.title) return;
+    const signal = start();
+    const snapshot = [...specs];
+    setRunSpecs(snapshot);
+    setResults(snapshot.map(() => ({ status: 'generating' })));
+    setPicks(pickAll(0));
+
+    const update = (index: number, result: VariantResult) =>
+      setResults(prev => prev.map((r, i) => (i === index ? result : r)));
+
+    // Variants are independent; one failing should not hide the others.
+    await Promise.all(snapshot.map(async (spec, i) => {
+      try {
+        update(i, { status: 'done', recap: await generateMovieRecap(variantMovie(base, spec), settings, { signal }) });
+      } catch (err: any) {
+        update(i, isAbortError(err) ? { status: 'cancelled' } : { status: 'error', error: err.message || t('result.failedFallback') });
+      }
+    }));
+    finish();
+  };
+
+  const recaps = results.map(r => r.recap);
+  const canMerge = !busy && results.length > 0 && Object.values(picks).every(i => recaps[i]);
+
+  const openMerged = () => {
+    const merged = mergeVariants(recaps as GeneratedRecap[], picks);
+    onOpen(variantMovie(base, mergedSpec(runSpecs, picks)), merged);
+  };
+
+  const runVersus = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const signal = start();
+    setVersus(null);
+    try {
+      setVersus(await generateVersus(films[0], films[1], settings, { signal }));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || t('compare.failed'));
+    } finally {
+      finish();
+    }
+  };
+
+  const exportVersus = () => {
+    if (!versus) return;
+    const [first, second] = films;
+    downloadText(
+      `${slugify(first.title)}-vs-${slugify(second.title)}.md`,
+      toVersusMarkdown(first, second, versus.versus, [versus.first, versus.second]),
+      'text/markdown'
+    );
+  };
+
+  const winnerTitle = versus && (versus.versus.winner === 'tie' ? t('compare.tie') : films[versus.versus.winner === 'first' ? 0 : 1].title);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">{t('compare.heading')}</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">{t('compare.back')}</button>
+      </div>
+
+      <div className="flex gap-2">
+        {(['variants', 'versus'] as const).map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            disabled={busy}
+            className={`px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors disabled:opacity-50 ${mode === m ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            {m === 'variants' ? t('compare.variants') : t('compare.versus')}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-xs font-medium">{error}</div>}
+
+      {mode === 'variants' ? (
+        <>
+          <section className="glass-panel rounded-2xl p-6 space-y-4">
+            <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('compare.variantsOf', { title: base.title || t('compare.studioFilm') })}</h3>
+            {!base.title && <p className="text-xs text-slate-500">{t('compare.fillStudio')}</p>}
+            <ul className="space-y-2">
+              {specs.map((spec, i) => (
+                <li key={i} className="flex items-center gap-3">
+                  <span className="w-6 text-xs font-mono text-slate-600">{String.fromCharCode(65 + i)}</span>
+                  <select className={`${field} flex-1 appearance-none`} value={spec.tone} disabled={busy} onChange={e => updateSpec(i, { tone: e.target.value })}>
+                    {tones.map(tone => <option key={tone} value={tone} className="bg-slate-900">{tone}</option>)}
+                  </select>
+                  <select className={`${field} flex-1 appearance-none`} value={spec.length} disabled={busy} onChange={e => updateSpec(i, { length: e.target.value as RecapLength })}>
+                    {(Object.keys(LENGTH_TARGETS) as RecapLength[]).map(len => <option key={len} value={len} className="bg-slate-900">{t(`form.length.${len}`)}</option>)}
+                  </select>
+                  <button onClick={() => setSpecs(prev => prev.filter((_, j) => j !== i))} disabled={busy || specs.length <= MIN_VARIANTS} className={smallButton}>{t('compare.remove')}</button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-3">
+              <button onClick={() => setSpecs(prev => [...prev, { ...prev[prev.length - 1] }])} disabled={busy || specs.length >= MAX_VARIANTS} className={smallButton}>{t('compare.addVariant')}</button>
+              {busy ? (
+                <button onClick={() => abortRef.current?.abort()} className={smallButton}>{t('result.cancel')}</button>
+              ) : (
+                <button onClick={runVariants} disabled={!base.title} className={primaryButton}>{t('compare.generate', { count: specs.length })}</button>
+              )}
+            </div>
+          </section>
+
+          {results.length > 0 && (
+            <section className="space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-xs text-slate-500">{t('compare.pickHint')}</p>
+                <button onClick={openMerged} disabled={!canMerge} className={primaryButton}>{t('compare.openMerged')}</button>
+              </div>
+
+              <div className={`grid grid-cols-1 ${COLUMN_CLASSES[results.length]} gap-4`}>
+                {results.map((result, i) => (
+                  <div key={i} className="glass-panel rounded-2xl p-4 space-y-2">
+                    <p className="text-xs font-bold text-white">{String.fromCharCode(65 + i)} · {runSpecs[i].tone} · {t(`form.length.${runSpecs[i].length}`)}</p>
+                    {result.status === 'generating' && <p className="text-[10px] font-bold uppercase tracking-widest text-amber-500 animate-pulse">{t('result.writing')}</p>}
+                    {result.status === 'error' && <p className="text-xs text-red-400">{result.error}</p>}
+                    {result.status === 'cancelled' && <p className="text-xs text-slate-500">{t('compare.cancelled')}</p>}
+                    {result.recap && <button onClick={() => setPicks(pickAll(i))} className={smallButton}>{t('compare.pickAll')}</button>}
+                  </div>
+                ))}
+              </div>
+
+              {(Object.keys(SECTION_TITLE_KEYS) as RecapSection[]).map(section => (
+                <div key={section} className="space-y-2">
+                  <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t(SECTION_TITLE_KEYS[section])}</h4>
+                  <div className={`grid grid-cols-1 ${COLUMN_CLASSES[results.length]} gap-4`}>
+                    {results.map((result, i) => (
+                      <button
+                        key={i}
+                        onClick={() => setPicks(prev => ({ ...prev, [section]: i }))}
+                        disabled={!result.recap}
+                        className={`text-start rounded-xl border p-4 text-sm leading-relaxed whitespace-pre-wrap transition-colors disabled:opacity-40 ${picks[section] === i ? 'border-amber-500/60 bg-amber-500/10 text-white' : 'border-slate-800 bg-slate-900/40 text-slate-400 hover:border-slate-600'}`}
+                      >
+                        {result.recap ? sectionText(result.recap, section) : '—'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+        </>
+      ) : (
+        <>
+          <form onSubmit={runVersus} className="glass-panel rounded-2xl p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FilmFields label={t('compare.firstFilm')} movie={films[0]} disabled={busy} onChange={movie => setFilms([movie, films[1]])} t={t} />
+              <FilmFields label={t('compare.secondFilm')} movie={films[1]} disabled={busy} onChange={movie => setFilms([films[0], movie])} t={t} />
+            </div>
+            <p className="text-xs text-slate-500">{t('compare.fromStudio', { tone: base.tone, length: t(`form.length.${base.length}`).toLowerCase() })}</p>
+            {busy ? (
+              <button type="button" onClick={() => abortRef.current?.abort()} className={smallButton}>{t('result.cancel')}</button>
+            ) : (
+              <button type="submit" className={primaryButton}>{t('compare.submit')}</button>
+            )}
+          </form>
+
+          {busy && <p className="text-[10px] font-bold uppercase tracking-widest text-amber-500 animate-pulse">{t('compare.writingBoth')}</p>}
+
+          {versus && (
+            <div className="space-y-8 animate-in fade-in duration-500">
+              <section className="space-y-6">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-full text-[10px] font-bold text-amber-500 uppercase tracking-widest">{t('compare.headToHead')}</span>
+                  <span className="px-3 py-1 bg-orange-500/10 border border-orange-500/20 rounded-full text-[10px] font-bold text-orange-400 uppercase tracking-widest">{t('compare.winner', { title: winnerTitle ?? '' })}</span>
+                  <button onClick={exportVersus} className={`${smallButton} ms-auto`}>{t('compare.exportMarkdown')}</button>
+                </div>
+                <h1 className="text-4xl font-display font-bold text-white leading-tight">{films[0].title} <span className="text-slate-600">{t('compare.vs')}</span> {films[1].title}</h1>
+                <p className="text-2xl font-display italic text-slate-400 border-s-4 border-amber-500 ps-6 leading-relaxed">"{versus.versus.tagline}"</p>
+                <div className="bg-slate-900/40 p-8 rounded-2xl border border-slate-800/50 shadow-inner space-y-4">
+                  <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('compare.summary')}</h4>
+                  <div className="text-slate-300 leading-relaxed text-lg whitespace-pre-wrap">{versus.versus.comparativeSummary}</div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="glass-panel p-6 rounded-2xl space-y-3">
+                    <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('compare.differences')}</h4>
+                    <ul className="space-y-2">
+                      {versus.versus.keyDifferences.map((item, i) => (
+                        <li key={i} className="flex gap-3 text-sm text-slate-300 leading-relaxed">
+                          <span className="text-amber-500 font-bold font-mono">{String(i + 1).padStart(2, '0')}</span>
+                          {item}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="glass-panel p-6 rounded-2xl space-y-3">
+                    <h4 className="font-bold text-orange-500 text-xs uppercase tracking-widest">{t('compare.verdict')}</h4>
+                    <p className="text-sm text-white italic leading-relaxed">{versus.versus.headToHeadVerdict}</p>
+                  </div>
+                </div>
+              </section>
+
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 items-start">
+                {([0, 1] as const).map(i => {
+                  const recap = i === 0 ? versus.first : versus.second;
+                  return (
+                    <div key={i} className="space-y-4">
+                      <RecapView movie={films[i]} recap={recap} t={t} />
+                      <button onClick={() => onOpen(films[i], recap)} className={smallButton}>{t('compare.openInStudio')}</button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { GeneratedRecap, MovieInfo } from '../types';
+import { EXPORT_FORMATS, ExportFormat, canShare, exportRecap, shareRecap } from '../services/exportService';
+import { MessageKey, Translator } from '../services/i18n';
+
+interface ExportMenuProps {
+  movie: MovieInfo;
+  recap: GeneratedRecap;
+  t: Translator;
+}
+
+const FORMAT_KEYS: Record<ExportFormat, MessageKey> = {
+  markdown: 'export.markdown',
+  print: 'export.print',
+  script: 'export.script',
+  srt: 'export.srt',
+  vtt: 'export.vtt',
+  json: 'export.json'
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ movie, recap, t }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [error, setError] = useState<string | null>(null);
+
+  const attempt = async (action: () => unknown) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || t('export.failed'));
+    }
+  };
+
+  const handleShare = () => attempt(async () => {
+    if (format === 'print') return;
+    // Fall back to a download when the Web Share API is unavailable.
+    if (!(await shareRecap(format, movie, recap))) exportRecap(format, movie, recap);
+  });
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('export.heading')}</h4>
+      <div className="flex flex-wrap gap-2">
+        {EXPORT_FORMATS.map(f => (
+          <button
+            key={f.id}
+            onClick={() => setFormat(f.id)}
+            className={`px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${format === f.id ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            {t(FORMAT_KEYS[f.id])}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={() => attempt(() => exportRecap(format, movie, recap))} className="py-3 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-300 transition-colors">
+          {format === 'print' ? t('export.printSave') : t('export.download')}
+        </button>
+        <button onClick={handleShare} disabled={format === 'print'} className="py-3 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-300 transition-colors disabled:opacity-40">
+          {canShare() ? t('export.share') : t('export.shareDownload')}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedRecap, MovieInfo } from '../types';
+import { buildCaptionCues, exportBaseName, formatClock, toSrt, toWebVtt } from '../services/exportService';
+import { redactGuarded } from '../services/spoilerGuard';
+import { DEFAULT_LANGUAGE, textDirection } from '../services/languages';
+import { downloadText } from '../services/download';
+import { Translator } from '../services/i18n';
+import {
+  NarrationSettings,
+  NarrationState,
+  canNarrate,
+  createNarrationPlayer,
+  loadNarrationSettings,
+  loadVoices,
+  saveNarrationSettings,
+  sortVoices
+} from '../services/narration';
+
+interface NarrationPanelProps {
+  movie: MovieInfo;
+  recap: GeneratedRecap;
+  t: Translator;
+}
+
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-white transition-colors disabled:opacity-40';
+
+const NarrationPanel: React.FC<NarrationPanelProps> = ({ movie, recap, t }) => {
+  const [settings, setSettings] = useState<NarrationSettings>(loadNarrationSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [state, setState] = useState<NarrationState>('idle');
+  const [current, setCurrent] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  const language = movie.language || DEFAULT_LANGUAGE;
+  const supported = canNarrate();
+
+  // Guarded spoilers are blurred on screen, so they are never read out or captioned.
+  // Same source as the Export menu, so its captions match what is spoken here.
+  const spoken = useMemo(() => redactGuarded(movie, recap), [movie, recap]);
+  const cues = useMemo(() => buildCaptionCues(movie, spoken, settings.rate), [movie, spoken, settings.rate]);
+
+  const player = useMemo(() => createNarrationPlayer({ onCue: setCurrent, onStateChange: setState, onError: setError }), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then(list => { if (!cancelled) setVoices(sortVoices(list, language)); });
+    return () => { cancelled = true; };
+  }, [language]);
+
+  // Edits make the running cue indices meaningless, so playback stops with them.
+  useEffect(() => player.stop, [player, spoken]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [current]);
+
+  const update = (patch: Partial<NarrationSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveNarrationSettings(next);
+    // Rate, pitch and voice are fixed per utterance; restart from the current sentence.
+    if (state !== 'idle') play(Math.max(0, current), next);
+  };
+
+  const play = (from = 0, options: NarrationSettings = settings) => {
+    setError(null);
+    player.play(buildCaptionCues(movie, spoken, options.rate), { settings: options, voices, language }, from);
+  };
+
+  const downloadCaptions = (format: 'srt' | 'vtt') => {
+    const text = format === 'srt' ? toSrt(movie, spoken, settings.rate) : toWebVtt(movie, spoken, settings.rate);
+    downloadText(`${exportBaseName(movie)}.${format}`, text, format === 'srt' ? 'application/x-subrip' : 'text/vtt');
+  };
+
+  const segments = cues.reduce<{ label: string; start: number; cues: number[] }[]>((acc, cue, i) => {
+    const last = acc[acc.length - 1];
+    if (last && last.label === cue.label) last.cues.push(i);
+    else acc.push({ label: cue.label, start: cue.start, cues: [i] });
+    return acc;
+  }, []);
+  const runtime = cues.length ? cues[cues.length - 1].end : 0;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('narration.heading')}</h4>
+        <span className="text-[10px] text-slate-500 font-mono">{t('narration.cues', { count: cues.length, runtime: formatClock(runtime) })}</span>
+      </div>
+
+      {!supported && <p className="text-xs text-slate-500">{t('narration.unsupported')}</p>}
+
+      {supported && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('narration.voice')}</span>
+            <select
+              className="w-full bg-slate-800/50 border border-slate-700 rounded-xl px-3 py-2 text-sm focus:outline-none text-white"
+              value={settings.voiceURI}
+              onChange={e => update({ voiceURI: e.target.value })}
+            >
+              <option value="">{t('narration.defaultVoice')}</option>
+              {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('narration.rate', { value: settings.rate.toFixed(1) })}</span>
+            <input type="range" min={0.5} max={2} step={0.1} value={settings.rate} onChange={e => update({ rate: Number(e.target.value) })} className="w-full accent-amber-500" />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('narration.pitch', { value: settings.pitch.toFixed(1) })}</span>
+            <input type="range" min={0} max={2} step={0.1} value={settings.pitch} onChange={e => update({ pitch: Number(e.target.value) })} className="w-full accent-amber-500" />
+          </label>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {supported && state === 'idle' && <button onClick={() => play()} disabled={!cues.length} className={smallButton}>{t('narration.play')}</button>}
+        {state === 'playing' && <button onClick={player.pause} className={smallButton}>{t('narration.pause')}</button>}
+        {state === 'paused' && <button onClick={player.resume} className={smallButton}>{t('narration.resume')}</button>}
+        {state !== 'idle' && <button onClick={player.stop} className={smallButton}>{t('narration.stop')}</button>}
+        <span className="flex-1"></span>
+        <button onClick={() => downloadCaptions('srt')} disabled={!cues.length} className={smallButton}>{t('narration.srt')}</button>
+        <button onClick={() => downloadCaptions('vtt')} disabled={!cues.length} className={smallButton}>{t('narration.vtt')}</button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto space-y-3 pe-2" dir={textDirection(language)}>
+        {segments.map(segment => (
+          <div key={segment.label} className="grid grid-cols-[5.5rem_1fr] gap-3 text-sm">
+            <div className="text-[10px] font-mono text-slate-500 pt-1">
+              <p className="font-bold uppercase tracking-wider text-slate-400">{segment.label}</p>
+              <p>{formatClock(segment.start)}</p>
+            </div>
+            <p className="text-slate-400 leading-relaxed">
+              {segment.cues.map(i => (
+                <span
+                  key={i}
+                  ref={i === current ? activeRef : undefined}
+                  onClick={() => supported && play(i)}
+                  title={supported ? t('narration.readFrom') : undefined}
+                  className={`rounded px-0.5 transition-colors ${supported ? 'cursor-pointer hover:text-white' : ''} ${i === current ? 'bg-amber-500/20 text-white' : ''}`}
+                >
+                  {cues[i].text}{' '}
+                </span>
+              ))}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default NarrationPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDERS, getProvider } from '../services/recapProvider';
+
+interface ProviderPickerProps {
+  value: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white text-sm disabled:opacity-50';
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ value, onChange, disabled }) => {
+  const provider = getProvider(value.providerId);
+
+  const selectProvider = (providerId: ProviderId) => {
+    onChange({ ...value, providerId, model: getProvider(providerId).models[0] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500">AI Engine</label>
+      <div className="grid grid-cols-2 gap-4">
+        <select className={`${fieldClass} appearance-none`} disabled={disabled} value={value.providerId} onChange={e => selectProvider(e.target.value as ProviderId)}>
+          {PROVIDERS.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>)}
+        </select>
+        {provider.customModels ? (
+          <>
+            <input list="provider-models" className={fieldClass} disabled={disabled} placeholder="Model" value={value.model} onChange={e => onChange({ ...value, model: e.target.value })} />
+            <datalist id="provider-models">
+              {provider.models.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </>
+        ) : (
+          <select className={`${fieldClass} appearance-none`} disabled={disabled} value={value.model} onChange={e => onChange({ ...value, model: e.target.value })}>
+            {provider.models.map(m => <option key={m} value={m} className="bg-slate-900">{m}</option>)}
+          </select>
+        )}
+      </div>
+      {provider.id === 'openai' && (
+        <input type="url" className={fieldClass} disabled={disabled} placeholder="Server URL, e.g. http://localhost:11434/v1" value={value.baseUrl} onChange={e => onChange({ ...value, baseUrl: e.target.value })} />
+      )}
+    </div>
+  );
+};
+
+export default ProviderPicker;
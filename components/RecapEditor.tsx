@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, GeneratedRecap, MovieInfo, ProviderSettings, RecapSection } from '../types';
+import { SECTION_LABELS, refineRecap, regenerateSection, seedConversation, syncConversation, translateRecap } from '../services/refineService';
+import {
+  RecapHistory,
+  canRedo,
+  canUndo,
+  createHistory,
+  currentRecap,
+  recordRevision,
+  redoSection,
+  undoSection
+} from '../services/revisionHistory';
+import { isAbortError } from '../services/abort';
+import { checkHouseStyle, findHouseStyle } from '../services/styleService';
+import { OUTPUT_LANGUAGES, findLanguage, textDirection } from '../services/languages';
+import { Translator } from '../services/i18n';
+import RecapView, { SECTION_TITLE_KEYS } from './RecapView';
+import ExportMenu from './ExportMenu';
+
+interface RecapEditorProps {
+  movie: MovieInfo;
+  initialRecap: GeneratedRecap;
+  settings: ProviderSettings;
+  editable: boolean;
+  onChange: (recap: GeneratedRecap) => void;
+  translations: Record<string, GeneratedRecap>;
+  onTranslationsChange: (translations: Record<string, GeneratedRecap>) => void;
+  /** Told when a translation opens beside the original, so the page can widen. */
+  onSideBySideChange?: (open: boolean) => void;
+  t: Translator;
+}
+
+interface RefineLogEntry {
+  instruction: string;
+  changed: RecapSection[];
+  failed?: boolean;
+}
+
+const changedSections = (before: GeneratedRecap, after: GeneratedRecap): RecapSection[] =>
+  (Object.keys(SECTION_LABELS) as RecapSection[])
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+
+// Mounted once per recap (keyed by the caller); owns revisions and the refinement conversation.
+const RecapEditor: React.FC<RecapEditorProps> = ({ movie, initialRecap, settings, editable, onChange, translations, onTranslationsChange, onSideBySideChange, t }) => {
+  const [history, setHistory] = useState<RecapHistory>(() => createHistory(initialRecap));
+  const [conversation, setConversation] = useState<ChatMessage[]>(() => seedConversation(movie, initialRecap));
+  const [busySection, setBusySection] = useState<RecapSection | null>(null);
+  const [refining, setRefining] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [log, setLog] = useState<RefineLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const sourceLanguage = findLanguage(movie.language).code;
+  const [targetLanguage, setTargetLanguage] = useState(() => OUTPUT_LANGUAGES.find(l => l.code !== sourceLanguage)!.code);
+  const [shownLanguage, setShownLanguage] = useState<string | null>(null);
+  const [translating, setTranslating] = useState(false);
+
+  useEffect(() => {
+    onSideBySideChange?.(shownLanguage !== null);
+  }, [shownLanguage]);
+
+  useEffect(() => () => onSideBySideChange?.(false), []);
+
+  const recap = currentRecap(history);
+  const houseStyle = findHouseStyle(movie.houseStyleId);
+  const violations = houseStyle ? checkHouseStyle(recap, houseStyle) : [];
+
+  const commit = (next: RecapHistory) => {
+    setHistory(next);
+    onChange(currentRecap(next));
+  };
+
+  // Undo and redo skip the model, so its last reply is rewritten to match what is shown.
+  const restore = (next: RecapHistory) => {
+    commit(next);
+    setConversation(prev => syncConversation(prev, currentRecap(next)));
+  };
+
+  // Runs one AI edit; the conversation only advances when it succeeds.
+  const runEdit = async (edit: (signal: AbortSignal) => Promise<{ recap: GeneratedRecap; conversation: ChatMessage[] }>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    try {
+      const result = await edit(controller.signal);
+      commit(recordRevision(history, result.recap));
+      setConversation(result.conversation);
+      return result.recap;
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || t('editor.editFailed'));
+      return null;
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleRegenerate = async (section: RecapSection) => {
+    setBusySection(section);
+    await runEdit(signal => regenerateSection(movie, recap, section, conversation, settings, { signal }));
+    setBusySection(null);
+  };
+
+  const handleRefine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text) return;
+    setRefining(true);
+    const before = recap;
+    const next = await runEdit(signal => refineRecap(movie, text, conversation, settings, { signal }));
+    if (next) {
+      setLog(prev => [...prev, { instruction: text, changed: changedSections(before, next) }]);
+      setInstruction('');
+    } else {
+      setLog(prev => [...prev, { instruction: text, changed: [], failed: true }]);
+    }
+    setRefining(false);
+  };
+
+  const handleTranslate = async (language: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTranslating(true);
+    setError(null);
+    try {
+      const translated = await translateRecap(movie, recap, language, settings, { signal: controller.signal });
+      onTranslationsChange({ ...translations, [language]: translated });
+      setShownLanguage(language);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || t('editor.translateFailed'));
+    } finally {
+      abortRef.current = null;
+      setTranslating(false);
+    }
+  };
+
+  const removeTranslation = (language: string) => {
+    const { [language]: _removed, ...rest } = translations;
+    onTranslationsChange(rest);
+    if (shownLanguage === language) setShownLanguage(null);
+  };
+
+  const shown = shownLanguage ? translations[shownLanguage] : undefined;
+  const translatedMovie: MovieInfo = { ...movie, language: shownLanguage ?? undefined };
+
+  const controls = editable ? {
+    busy: refining || translating || busySection !== null,
+    busySection,
+    canUndo: (section: RecapSection) => canUndo(history, section),
+    canRedo: (section: RecapSection) => canRedo(history, section),
+    onRegenerate: handleRegenerate,
+    onUndo: (section: RecapSection) => restore(undoSection(history, section)),
+    onRedo: (section: RecapSection) => restore(redoSection(history, section))
+  } : undefined;
+
+  return (
+    <div className="space-y-8">
+      {shown ? (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 items-start">
+          <div dir={textDirection(movie.language)} lang={sourceLanguage}>
+            <RecapView movie={movie} recap={recap} controls={controls} t={t} />
+          </div>
+          <div className="space-y-6">
+            <div dir={textDirection(shownLanguage!)} lang={shownLanguage!}>
+              <RecapView movie={translatedMovie} recap={shown} t={t} />
+            </div>
+            <ExportMenu movie={translatedMovie} recap={shown} t={t} />
+          </div>
+        </div>
+      ) : (
+        <div dir={textDirection(movie.language)} lang={sourceLanguage}>
+          <RecapView movie={movie} recap={recap} controls={controls} t={t} />
+        </div>
+      )}
+
+      {(editable || Object.keys(translations).length > 0) && (
+      <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('editor.languages')}</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setShownLanguage(null)}
+            className={`px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${shownLanguage === null ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            {t('editor.sourceOnly', { language: findLanguage(sourceLanguage).nativeName })}
+          </button>
+          {Object.keys(translations).map(code => (
+            <span key={code} className="flex items-center">
+              <button
+                onClick={() => setShownLanguage(code)}
+                className={`px-3 py-2 rounded-s-lg text-xs font-bold uppercase tracking-wider border transition-colors ${shownLanguage === code ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                + {findLanguage(code).nativeName}
+              </button>
+              {editable && (
+                <button onClick={() => removeTranslation(code)} disabled={translating} title={t('editor.removeTranslation')} className="px-2 py-2 rounded-e-lg border border-s-0 border-slate-700 text-xs text-slate-500 hover:text-red-400 transition-colors disabled:opacity-50">×</button>
+              )}
+            </span>
+          ))}
+        </div>
+        {editable && (
+          <div className="flex gap-3">
+            <select
+              className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none appearance-none text-white text-sm"
+              value={targetLanguage}
+              disabled={translating}
+              onChange={e => setTargetLanguage(e.target.value)}
+            >
+              {OUTPUT_LANGUAGES.filter(l => l.code !== sourceLanguage).map(l => (
+                <option key={l.code} value={l.code} className="bg-slate-900">{l.nativeName} — {l.label}</option>
+              ))}
+            </select>
+            {translating ? (
+              <button type="button" onClick={() => abortRef.current?.abort()} className="px-5 rounded-xl border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-400 transition-colors">{t('result.cancel')}</button>
+            ) : (
+              <button onClick={() => handleTranslate(targetLanguage)} disabled={refining || busySection !== null} className="px-5 rounded-xl bg-amber-500 hover:bg-amber-400 text-slate-950 text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50">
+                {translations[targetLanguage] ? t('editor.retranslate') : t('editor.translate')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      )}
+
+      {violations.length > 0 && (
+        <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-4 space-y-1">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-orange-500">{t('editor.houseStyle', { name: houseStyle!.name })}</p>
+          {violations.map((v, i) => (
+            <p key={i} className="text-xs text-orange-400">{t(SECTION_TITLE_KEYS[v.section])} {v.message}.</p>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-xs font-medium">{error}</div>}
+
+      {editable && (
+        <div className="glass-panel p-6 rounded-2xl space-y-4">
+          <h4 className="font-bold text-amber-500 text-xs uppercase tracking-widest">{t('editor.refine')}</h4>
+          {log.length > 0 && (
+            <ul className="space-y-2 text-sm">
+              {log.map((entry, i) => (
+                <li key={i} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-3">
+                  <p className="text-white">{entry.instruction}</p>
+                  <p className={`text-[10px] uppercase tracking-widest font-bold mt-1 ${entry.failed ? 'text-red-400' : 'text-slate-500'}`}>
+                    {entry.failed ? t('editor.failed')
+                      : entry.changed.length ? t('editor.updated', { sections: entry.changed.map(section => t(SECTION_TITLE_KEYS[section])).join(', ') })
+                      : t('editor.noChanges')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleRefine} className="flex gap-3">
+            <input
+              className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 text-white text-sm disabled:opacity-50"
+              placeholder={t('editor.refinePlaceholder')}
+              value={instruction}
+              disabled={refining || translating || busySection !== null}
+              onChange={e => setInstruction(e.target.value)}
+            />
+            {refining ? (
+              <button type="button" onClick={() => abortRef.current?.abort()} className="px-5 rounded-xl border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-red-400 transition-colors">{t('result.cancel')}</button>
+            ) : (
+              <button type="submit" disabled={translating || busySection !== null || !instruction.trim()} className="px-5 rounded-xl bg-amber-500 hover:bg-amber-400 text-slate-950 text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50">{t('editor.apply')}</button>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecapEditor;
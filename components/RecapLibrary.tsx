@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedRecap, User } from '../types';
+import {
+  DEFAULT_LIBRARY_QUERY,
+  LibraryQuery,
+  deleteRecap,
+  duplicateRecap,
+  listAllRecaps,
+  listRecaps,
+  queryRecaps,
+  saveRecap
+} from '../services/libraryService';
+import { parseRecapJson } from '../services/exportService';
+import { assertCan, can, canModifyRecap } from '../services/permissions';
+import { formatScore } from '../services/scorecards';
+
+interface RecapLibraryProps {
+  user: User;
+  tones: string[];
+  onOpen: (entry: SavedRecap) => void;
+  onClose: () => void;
+}
+
+// Original language first, then any translations, e.g. "en · es · ar".
+const recapLanguages = (entry: SavedRecap): string =>
+  [entry.movie.language ?? 'en', ...Object.keys(entry.translations ?? {})].join(' · ');
+
+const RecapLibrary: React.FC<RecapLibraryProps> = ({ user, tones, onOpen, onClose }) => {
+  const [entries, setEntries] = useState<SavedRecap[]>([]);
+  const [query, setQuery] = useState<LibraryQuery>(DEFAULT_LIBRARY_QUERY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const readAll = can(user, 'library:readAll');
+
+  useEffect(() => {
+    let cancelled = false;
+    (readAll ? listAllRecaps() : listRecaps(user.username))
+      .then(list => { if (!cancelled) setEntries(list); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || 'Could not open the recap library.'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [user.username, readAll]);
+
+  const visible = useMemo(() => queryRecaps(entries, query), [entries, query]);
+
+  const handleDuplicate = async (entry: SavedRecap) => {
+    setError(null);
+    try {
+      assertCan(user, 'recap:edit');
+      const copy = await duplicateRecap(entry, user.username);
+      setEntries(prev => [copy, ...prev]);
+    } catch (err: any) {
+      setError(err.message || 'Could not duplicate that recap.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      assertCan(user, 'recap:edit');
+      const { movie, recap } = parseRecapJson(await file.text());
+      const entry = await saveRecap(user.username, movie, recap, 'import');
+      setEntries(prev => [entry, ...prev]);
+    } catch (err: any) {
+      setError(err.message || 'Could not import that file.');
+    }
+  };
+
+  const handleDelete = async (entry: SavedRecap) => {
+    if (!canModifyRecap(user, entry) || !confirm(`Delete the recap for "${entry.movie.title}"?`)) return;
+    setError(null);
+    try {
+      await deleteRecap(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err: any) {
+      setError(err.message || 'Could not delete that recap.');
+    }
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 md:p-8 space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Recap Library</h2>
+        <div className="flex items-center gap-6">
+          {can(user, 'recap:edit') && (
+            <label className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors cursor-pointer">
+              Import JSON
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+          )}
+          <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          type="search"
+          placeholder="Search title, director or genre"
+          className="md:col-span-4 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 text-white"
+          value={query.search}
+          onChange={e => setQuery({ ...query, search: e.target.value })}
+        />
+        <select className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={query.tone} onChange={e => setQuery({ ...query, tone: e.target.value })}>
+          <option value="" className="bg-slate-900">Any tone</option>
+          {tones.map(t => <option key={t} value={t} className="bg-slate-900">{t}</option>)}
+        </select>
+        <select className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={query.spoilers} onChange={e => setQuery({ ...query, spoilers: e.target.value as LibraryQuery['spoilers'] })}>
+          <option value="any" className="bg-slate-900">Spoilers: any</option>
+          <option value="yes" className="bg-slate-900">With spoilers</option>
+          <option value="no" className="bg-slate-900">Spoiler-free</option>
+        </select>
+        <select className="md:col-span-2 bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none text-white" value={query.sort} onChange={e => setQuery({ ...query, sort: e.target.value as LibraryQuery['sort'] })}>
+          <option value="newest" className="bg-slate-900">Newest first</option>
+          <option value="oldest" className="bg-slate-900">Oldest first</option>
+          <option value="title" className="bg-slate-900">Title A–Z</option>
+          <option value="score" className="bg-slate-900">Highest score</option>
+        </select>
+      </div>
+
+      {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-xs font-medium">{error}</div>}
+      {loading && <p className="text-slate-500 text-sm">Loading saved recaps...</p>}
+      {!loading && !error && visible.length === 0 && (
+        <p className="text-slate-500 text-sm text-center py-8">{entries.length ? 'No recaps match these filters.' : 'No saved recaps yet.'}</p>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(entry => (
+          <li key={entry.id} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold text-white truncate">
+                {entry.movie.title}
+                {entry.recap.scorecard && <span className="ms-2 text-amber-500 font-mono text-sm">{formatScore(entry.recap.scorecard.overall)}/10</span>}
+              </h3>
+              <p className="text-xs text-slate-500 truncate">
+                {[entry.movie.director, entry.movie.genre, entry.movie.tone].filter(Boolean).join(' · ')}
+                {recapLanguages(entry) !== 'en' && (
+                  <span className="ms-2 text-amber-500 font-bold uppercase tracking-widest text-[10px]">{recapLanguages(entry)}</span>
+                )}
+                {entry.movie.includeSpoilers && <span className="ms-2 text-orange-500 font-bold uppercase tracking-widest text-[10px]">Spoilers</span>}
+              </p>
+              <p className="text-[10px] text-slate-600 font-mono mt-1">
+                {new Date(entry.createdAt).toLocaleString()} · {entry.model}
+                {entry.owner !== user.username && ` · by ${entry.owner}`}
+              </p>
+            </div>
+            <div className="flex gap-2 text-xs font-bold uppercase tracking-wider">
+              <button onClick={() => onOpen(entry)} className="px-3 py-2 rounded-lg bg-amber-500 text-slate-950 hover:bg-amber-400 transition-colors">Open</button>
+              {can(user, 'recap:edit') && (
+                <button onClick={() => handleDuplicate(entry)} className="px-3 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white transition-colors">Duplicate</button>
+              )}
+              {canModifyRecap(user, entry) && (
+                <button onClick={() => handleDelete(entry)} className="px-3 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400 transition-colors">Delete</button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecapLibrary;
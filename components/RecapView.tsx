@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedRecap, MovieInfo, RecapSection } from '../types';
+import { countWords, readingTime } from '../services/textStats';
+import { LENGTH_TARGETS } from '../services/recapPrompt';
+import { scorecardText } from '../services/scorecards';
+import ScorecardCard from './ScorecardCard';
+import { GuardedSection, SpoilerFlag, detectSpoilers, isGuarded, splitSentences } from '../services/spoilerGuard';
+import { MessageKey, Translator } from '../services/i18n';
+
+/** Per-section editing hooks; omitted for read-only presentation. */
+export interface SectionControls {
+  /** True while any AI edit is running; all controls are locked. */
+  busy: boolean;
+  busySection: RecapSection | null;
+  canUndo: (section: RecapSection) => boolean;
+  canRedo: (section: RecapSection) => boolean;
+  onRegenerate: (section: RecapSection) => void;
+  onUndo: (section: RecapSection) => void;
+  onRedo: (section: RecapSection) => void;
+}
+
+interface RecapViewProps {
+  movie: MovieInfo;
+  recap: GeneratedRecap;
+  controls?: SectionControls;
+  t: Translator;
+}
+
+export const SECTION_TITLE_KEYS: Record<RecapSection, MessageKey> = {
+  tagline: 'view.tagline',
+  summary: 'view.summary',
+  characterAnalysis: 'result.characters',
+  keyTakeaways: 'view.takeaways',
+  verdict: 'result.verdict',
+  scorecard: 'view.scorecard'
+};
+
+const formatWords = (t: Translator, words: number): string => {
+  const { unit, count } = readingTime(words);
+  return `${t('view.words', { count: words })} · ${t(unit === 'seconds' ? 'view.readSeconds' : 'view.readMinutes', { count })}`;
+};
+
+const controlButton = 'text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-500';
+
+const EditControls: React.FC<{ section: RecapSection; controls?: SectionControls; t: Translator }> = ({ section, controls, t }) => {
+  if (!controls) return null;
+  const { busy } = controls;
+  return (
+    <>
+      <button onClick={() => controls.onUndo(section)} disabled={busy || !controls.canUndo(section)} className={controlButton} title={t('view.undo')}>↶</button>
+      <button onClick={() => controls.onRedo(section)} disabled={busy || !controls.canRedo(section)} className={controlButton} title={t('view.redo')}>↷</button>
+      <button onClick={() => controls.onRegenerate(section)} disabled={busy} className={controlButton}>
+        {controls.busySection === section ? t('view.rewriting') : t('view.regenerate')}
+      </button>
+    </>
+  );
+};
+
+const CopyButton: React.FC<{ text: string; t: Translator }> = ({ text, t }) => {
+  const [state, setState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const copy = async () => {
+    try {
+      // Missing outside secure contexts, and may be refused by the browser.
+      await navigator.clipboard.writeText(text);
+      setState('copied');
+    } catch {
+      setState('failed');
+    }
+    setTimeout(() => setState('idle'), 1500);
+  };
+
+  return (
+    <button onClick={copy} className={`text-[10px] font-bold uppercase tracking-widest transition-colors ${state === 'failed' ? 'text-red-400' : 'text-slate-500 hover:text-amber-400'}`}>
+      {state === 'copied' ? t('view.copied') : state === 'failed' ? t('view.copyFailed') : t('view.copy')}
+    </button>
+  );
+};
+
+// Word count + reading time, with an on-target check when a range applies.
+const SectionStats: React.FC<{ text: string; target?: [number, number]; t: Translator }> = ({ text, target, t }) => {
+  const words = countWords(text);
+  const status = !target ? null : words < target[0] ? 'view.under' : words > target[1] ? 'view.over' : 'view.onTarget';
+  return (
+    <span className="text-[10px] font-mono text-slate-600">
+      {formatWords(t, words)}
+      {status && (
+        <span className={status === 'view.onTarget' ? 'text-emerald-500' : 'text-orange-500'} title={t('view.target', { min: target![0], max: target![1] })}>
+          {' '}· {t(status)}
+        </span>
+      )}
+    </span>
+  );
+};
+
+// Renders prose with flagged sentences blurred until clicked.
+const GuardedText: React.FC<{ section: GuardedSection; text: string; flags: SpoilerFlag[]; t: Translator }> = ({ section, text, flags, t }) => {
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const flagged = new Map(flags.filter(f => f.section === section).map(f => [f.sentenceIndex, f]));
+  if (!flagged.size) return <>{text}</>;
+
+  return (
+    <>
+      {splitSentences(text).map((sentence, i) => {
+        const flag = flagged.get(i);
+        const key = `${i}:${sentence}`;
+        if (!flag || revealed.has(key)) return <React.Fragment key={i}>{sentence}</React.Fragment>;
+        return (
+          <span
+            key={i}
+            role="button"
+            tabIndex={0}
+            title={t('view.spoilerSentence', { reason: flag.reason })}
+            onClick={() => setRevealed(prev => new Set(prev).add(key))}
+            onKeyDown={e => e.key === 'Enter' && setRevealed(prev => new Set(prev).add(key))}
+            className="blur-sm hover:blur-[3px] cursor-pointer select-none transition-all"
+          >
+            {sentence}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+interface SectionProps {
+  section: RecapSection;
+  controls?: SectionControls;
+  t: Translator;
+  accent: string;
+  text: string;
+  target?: [number, number];
+  /** Word count and reading time; off for sections that are not prose. */
+  stats?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ section, controls, t, accent, text, target, stats = true, className = 'glass-panel p-6 rounded-2xl', children }) => (
+  <div className={`${className} ${controls?.busySection === section ? 'animate-pulse' : ''}`}>
+    <div className="flex items-center justify-between gap-3 mb-4">
+      <h4 className={`font-bold ${accent} text-xs uppercase tracking-widest flex items-center gap-2`}>
+        <span className="w-1.5 h-1.5 rounded-full bg-current"></span>
+        {t(SECTION_TITLE_KEYS[section])}
+      </h4>
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        {stats && <SectionStats text={text} target={target} t={t} />}
+        <EditControls section={section} controls={controls} t={t} />
+        <CopyButton text={text} t={t} />
+      </div>
+    </div>
+    {children}
+  </div>
+);
+
+const RecapView: React.FC<RecapViewProps> = ({ movie, recap, controls, t }) => {
+  const length = LENGTH_TARGETS[movie.length] ? movie.length : 'medium';
+  const target = LENGTH_TARGETS[length];
+  const takeawaysText = recap.keyTakeaways.map(item => `• ${item}`).join('\n');
+  const totalWords = countWords([recap.tagline, recap.summary, recap.characterAnalysis, recap.keyTakeaways.join(' '), recap.verdict].join(' '));
+  const spoilerFlags = useMemo(
+    () => (isGuarded(movie) ? detectSpoilers(recap, movie.keyPlotPoints) : []),
+    [movie, recap]
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <span className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-full text-[10px] font-bold text-amber-500 uppercase tracking-widest">{t('view.ready')}</span>
+          <span className="text-[10px] font-mono text-slate-600">{t(`form.length.${length}`)} · {formatWords(t, totalWords)}</span>
+          {spoilerFlags.length > 0 && (
+            <span className="px-3 py-1 bg-orange-500/10 border border-orange-500/20 rounded-full text-[10px] font-bold text-orange-400 uppercase tracking-widest" title={t('view.spoilersHint')}>
+              {t(spoilerFlags.length === 1 ? 'view.spoilersOne' : 'view.spoilersOther', { count: spoilerFlags.length })}
+            </span>
+          )}
+        </div>
+        <h1 className="text-4xl font-display font-bold text-white leading-tight">{movie.title}</h1>
+        <div className="flex items-start gap-3">
+          <p className={`flex-1 text-2xl font-display italic text-slate-400 border-s-4 border-amber-500 ps-6 leading-relaxed ${controls?.busySection === 'tagline' ? 'animate-pulse' : ''}`}>"{recap.tagline}"</p>
+          <div className="flex items-center gap-3 pt-2">
+            <EditControls section="tagline" controls={controls} t={t} />
+            <CopyButton text={recap.tagline} t={t} />
+          </div>
+        </div>
+      </div>
+
+      <Section section="summary" controls={controls} t={t} accent="text-amber-500" text={recap.summary} target={target.summary} className="bg-slate-900/40 p-8 rounded-2xl border border-slate-800/50 shadow-inner">
+        <div className="text-slate-300 leading-relaxed text-lg whitespace-pre-wrap"><GuardedText section="summary" text={recap.summary} flags={spoilerFlags} t={t} /></div>
+      </Section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Section section="characterAnalysis" controls={controls} t={t} accent="text-amber-500" text={recap.characterAnalysis} target={target.characterAnalysis}>
+          <p className="text-sm text-slate-400 leading-relaxed"><GuardedText section="characterAnalysis" text={recap.characterAnalysis} flags={spoilerFlags} t={t} /></p>
+        </Section>
+        <Section section="verdict" controls={controls} t={t} accent="text-orange-500" text={recap.verdict}>
+          <p className="text-sm text-white italic leading-relaxed"><GuardedText section="verdict" text={recap.verdict} flags={spoilerFlags} t={t} /></p>
+        </Section>
+      </div>
+
+      {recap.scorecard && (
+        <Section section="scorecard" controls={controls} t={t} accent="text-orange-500" text={scorecardText(recap.scorecard)} stats={false}>
+          <ScorecardCard scorecard={recap.scorecard} />
+        </Section>
+      )}
+
+      <Section section="keyTakeaways" controls={controls} t={t} accent="text-amber-500" text={takeawaysText}>
+        <ul className="space-y-2">
+          {recap.keyTakeaways.map((item, i) => (
+            <li key={i} className="flex gap-3 text-sm text-slate-300 leading-relaxed">
+              <span className="text-amber-500 font-bold font-mono">{String(i + 1).padStart(2, '0')}</span>
+              {item}
+            </li>
+          ))}
+        </ul>
+      </Section>
+    </div>
+  );
+};
+
+export default RecapView;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedRecap, User } from '../types';
+import { listAllRecaps, listRecaps } from '../services/libraryService';
+import { can } from '../services/permissions';
+import { SCORE_BUCKETS, SCORE_DIMENSIONS, SUB_SCORES, ScoreDimension, formatScore, groupScores, summarizeScores } from '../services/scorecards';
+
+interface ScoreDashboardProps {
+  user: User;
+  onClose: () => void;
+}
+
+// Bars are scaled to the tallest bucket in the same histogram.
+const Histogram: React.FC<{ counts: number[]; height?: string }> = ({ counts, height = 'h-10' }) => {
+  const peak = Math.max(1, ...counts);
+  return (
+    <div className={`flex items-end gap-1 ${height}`}>
+      {counts.map((count, i) => (
+        <div
+          key={i}
+          className="flex-1 bg-amber-500/70 rounded-t"
+          style={{ height: `${(count / peak) * 100}%`, minHeight: count ? '2px' : 0 }}
+          title={`${SCORE_BUCKETS[i]}: ${count}`}
+        ></div>
+      ))}
+    </div>
+  );
+};
+
+const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ user, onClose }) => {
+  const [entries, setEntries] = useState<SavedRecap[]>([]);
+  const [dimension, setDimension] = useState<ScoreDimension>('genre');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const readAll = can(user, 'library:readAll');
+
+  useEffect(() => {
+    let cancelled = false;
+    (readAll ? listAllRecaps() : listRecaps(user.username))
+      .then(list => { if (!cancelled) setEntries(list); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || 'Could not open the recap library.'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [user.username, readAll]);
+
+  const overall = useMemo(() => summarizeScores(entries), [entries]);
+  const groups = useMemo(() => groupScores(entries, dimension), [entries, dimension]);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Scores</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+      </div>
+
+      {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-xs font-medium">{error}</div>}
+      {loading && <p className="text-slate-500 text-sm">Loading saved recaps...</p>}
+      {!loading && !error && !overall && (
+        <p className="text-slate-500 text-sm text-center py-8">
+          {entries.length ? 'None of your saved recaps has a scorecard yet. New recaps include one.' : 'No saved recaps yet.'}
+        </p>
+      )}
+
+      {overall && (
+        <>
+          <section className="glass-panel rounded-2xl p-6 grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Average overall</p>
+              <p className="text-4xl font-display font-bold text-white">{formatScore(overall.mean)}<span className="text-sm text-slate-500 font-mono"> / 10</span></p>
+              <p className="text-xs text-slate-500 mt-1">
+                {overall.count} scored recap{overall.count === 1 ? '' : 's'}
+                {entries.length > overall.count && ` · ${entries.length - overall.count} without a scorecard`}
+              </p>
+            </div>
+            <div className="space-y-2">
+              {SUB_SCORES.map(({ key, label }) => (
+                <div key={key} className="flex justify-between text-xs">
+                  <span className="text-slate-500">{label}</span>
+                  <span className="text-white font-mono">{formatScore(overall.subMeans[key])}</span>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Histogram counts={overall.histogram} height="h-20" />
+              <div className="flex gap-1 text-[9px] font-mono text-slate-600">
+                {SCORE_BUCKETS.map(b => <span key={b} className="flex-1 text-center">{b}</span>)}
+              </div>
+            </div>
+          </section>
+
+          <div className="flex gap-2">
+            {SCORE_DIMENSIONS.map(d => (
+              <button
+                key={d.key}
+                onClick={() => setDimension(d.key)}
+                className={`px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${dimension === d.key ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                By {d.label}
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-3">
+            {groups.map(group => (
+              <li key={group.key} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 grid grid-cols-1 md:grid-cols-[1fr_auto_10rem] gap-4 items-center">
+                <div className="min-w-0">
+                  <h3 className="font-bold text-white truncate">{group.key}</h3>
+                  <p className="text-[10px] text-slate-500 font-mono mt-1">
+                    {group.count} recap{group.count === 1 ? '' : 's'} · range {formatScore(group.min)}–{formatScore(group.max)}
+                  </p>
+                  <p className="text-[10px] text-slate-600 font-mono mt-1">
+                    {SUB_SCORES.map(({ key, label }) => `${label} ${formatScore(group.subMeans[key])}`).join(' · ')}
+                  </p>
+                </div>
+                <p className="text-2xl font-display font-bold text-amber-500">{formatScore(group.mean)}</p>
+                <Histogram counts={group.histogram} />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScoreDashboard;
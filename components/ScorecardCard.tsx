@@ -0,0 +1,51 @@
+import React from 'react';
+import { Scorecard } from '../types';
+import { SUB_SCORES, formatConfidence, formatScore } from '../services/scorecards';
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-emerald-500' : score >= 6 ? 'bg-amber-500' : score >= 4 ? 'bg-orange-500' : 'bg-red-500';
+
+const ScoreBar: React.FC<{ label: string; score: number }> = ({ label, score }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest">
+      <span className="text-slate-500">{label}</span>
+      <span className="text-white font-mono">{formatScore(score)}</span>
+    </div>
+    <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+      <div className={`h-full rounded-full ${scoreColor(score)}`} style={{ width: `${score * 10}%` }}></div>
+    </div>
+  </div>
+);
+
+const ScorecardCard: React.FC<{ scorecard: Scorecard }> = ({ scorecard }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-6 items-center">
+    <div className="flex flex-col items-center gap-2">
+      <div className="relative w-28 h-28">
+        <svg viewBox="0 0 36 36" className="w-28 h-28 -rotate-90">
+          <circle cx="18" cy="18" r="15.9" fill="none" strokeWidth="3" className="stroke-slate-800" />
+          <circle
+            cx="18" cy="18" r="15.9" fill="none" strokeWidth="3" strokeLinecap="round"
+            className="stroke-amber-500"
+            strokeDasharray={`${scorecard.overall * 10} 100`}
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <span className="text-3xl font-display font-bold text-white">{formatScore(scorecard.overall)}</span>
+          <span className="text-[10px] font-mono text-slate-500">/ 10</span>
+        </div>
+      </div>
+      <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500" title="How sure the model is of these scores">
+        Confidence {formatConfidence(scorecard.confidence)}
+      </span>
+    </div>
+    <div className="space-y-3">
+      {SUB_SCORES.map(({ key, label }) => <ScoreBar key={key} label={label} score={scorecard[key]} />)}
+      <p className="text-sm text-slate-300 pt-1">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500 me-2">Recommended for</span>
+        {scorecard.recommendedAudience}
+      </p>
+    </div>
+  </div>
+);
+
+export default ScorecardCard;
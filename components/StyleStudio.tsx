@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { HouseStyle, RecapLength, User } from '../types';
+import {
+  DEFAULT_TEMPLATE_NAME,
+  StyleCache,
+  allTones,
+  deleteHouseStyle,
+  deleteTemplate,
+  deleteTone,
+  latestTemplates,
+  saveHouseStyle,
+  saveTemplate,
+  saveTone,
+  templateVersions
+} from '../services/styleService';
+import { LENGTH_TARGETS, TEMPLATE_VARIABLES, findUnknownVariables } from '../services/recapPrompt';
+import { assertCan, can } from '../services/permissions';
+
+interface StyleStudioProps {
+  user: User;
+  styles: StyleCache; // re-rendered from the parent whenever the cache reloads
+  onStylesChange: (styles: StyleCache) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500/50 text-white text-sm';
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-white transition-colors disabled:opacity-40';
+const primaryButton = 'px-5 py-2 rounded-xl bg-amber-500 hover:bg-amber-400 text-slate-950 text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50';
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const EMPTY_STYLE = {
+  id: undefined as string | undefined,
+  name: '',
+  tone: 'Dramatic',
+  length: 'medium' as RecapLength,
+  includeSpoilers: false,
+  templateName: DEFAULT_TEMPLATE_NAME,
+  bannedPhrases: '',
+  signOffs: ''
+};
+
+const StyleStudio: React.FC<StyleStudioProps> = ({ user, styles, onStylesChange, onClose }) => {
+  const [templateName, setTemplateName] = useState(DEFAULT_TEMPLATE_NAME);
+  const [newName, setNewName] = useState('');
+  const [body, setBody] = useState(() => templateVersions(DEFAULT_TEMPLATE_NAME)[0].body);
+  const [tone, setTone] = useState({ name: '', description: '', examples: '' });
+  const [houseStyle, setHouseStyle] = useState(EMPTY_STYLE);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const templates = latestTemplates();
+  const versions = templateName ? templateVersions(templateName) : [];
+  const unknown = findUnknownVariables(body);
+
+  const run = async (action: () => Promise<StyleCache>, ok: string) => {
+    setMessage(null);
+    try {
+      onStylesChange(await action());
+      setMessage({ kind: 'ok', text: ok });
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message || 'Could not save.' });
+    }
+  };
+
+  const selectTemplate = (name: string) => {
+    setTemplateName(name);
+    setNewName('');
+    setBody(name ? templateVersions(name)[0].body : '');
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName || newName;
+    run(async () => {
+      assertCan(user, 'styles:edit');
+      const next = await saveTemplate(name, body, user.username);
+      setTemplateName(name.trim());
+      return next;
+    }, `Saved "${name}" as version ${(versions[0]?.version ?? 0) + 1}.`);
+  };
+
+  const handleSaveTone = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      assertCan(user, 'styles:edit');
+      const next = await saveTone({ name: tone.name, description: tone.description.trim(), examples: lines(tone.examples) });
+      setTone({ name: '', description: '', examples: '' });
+      return next;
+    }, `Saved tone "${tone.name}".`);
+  };
+
+  const editHouseStyle = (style: HouseStyle) => setHouseStyle({
+    ...style,
+    bannedPhrases: style.bannedPhrases.join('\n'),
+    signOffs: style.signOffs.join('\n')
+  });
+
+  const handleSaveHouseStyle = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      assertCan(user, 'styles:manage');
+      const next = await saveHouseStyle({
+        ...houseStyle,
+        name: houseStyle.name.trim(),
+        bannedPhrases: lines(houseStyle.bannedPhrases),
+        signOffs: lines(houseStyle.signOffs)
+      });
+      setHouseStyle(EMPTY_STYLE);
+      return next;
+    }, `Saved house style "${houseStyle.name}".`);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Styles & Templates</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl text-xs font-medium border ${message.kind === 'ok' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Prompt Templates</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select className={`${inputClass} appearance-none`} value={templateName} onChange={e => selectTemplate(e.target.value)}>
+            {templates.map(t => <option key={t.name} value={t.name} className="bg-slate-900">{t.name} (v{t.version})</option>)}
+            <option value="" className="bg-slate-900">+ New template</option>
+          </select>
+          {templateName ? (
+            <select className={`${inputClass} appearance-none`} onChange={e => setBody(versions.find(v => v.id === e.target.value)?.body ?? body)}>
+              {versions.map(v => (
+                <option key={v.id} value={v.id} className="bg-slate-900">
+                  v{v.version} · {v.createdBy}{v.createdAt ? ` · ${new Date(v.createdAt).toLocaleDateString()}` : ''}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input className={inputClass} placeholder="Template name" value={newName} onChange={e => setNewName(e.target.value)} />
+          )}
+          {templateName && templateName !== DEFAULT_TEMPLATE_NAME && (
+            <button
+              onClick={() => confirm(`Delete every version of "${templateName}"?`) && run(async () => { const next = await deleteTemplate(templateName); selectTemplate(DEFAULT_TEMPLATE_NAME); return next; }, 'Template deleted.')}
+              className={`${smallButton} hover:text-red-400`}
+            >
+              Delete Template
+            </button>
+          )}
+        </div>
+        <textarea rows={10} className={`${inputClass} font-mono text-xs resize-y`} value={body} onChange={e => setBody(e.target.value)} />
+        <div className="flex flex-wrap gap-2">
+          {TEMPLATE_VARIABLES.map(v => (
+            <button key={v} onClick={() => setBody(`${body}{{${v}}}`)} className="px-2 py-1 rounded-full bg-slate-900 border border-slate-800 text-[10px] font-mono text-amber-500 hover:border-amber-500/40">{`{{${v}}}`}</button>
+          ))}
+        </div>
+        {unknown.length > 0 && <p className="text-xs text-orange-500">Unknown variables will be sent as-is: {unknown.map(v => `{{${v}}}`).join(', ')}</p>}
+        <button onClick={handleSaveTemplate} disabled={!can(user, 'styles:edit') || !body.trim() || (!templateName && !newName.trim())} className={primaryButton}>
+          Save as v{(versions[0]?.version ?? 0) + 1}
+        </button>
+      </section>
+
+      <section className="glass-panel rounded-2xl p-6 space-y-4">
+        <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Custom Tones</h3>
+        {styles.tones.length === 0 && <p className="text-sm text-slate-500">No custom tones yet.</p>}
+        {styles.tones.map(t => (
+          <div key={t.name} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 flex gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-white">{t.name}</p>
+              <p className="text-xs text-slate-400">{t.description}</p>
+              {t.examples.map((ex, i) => <p key={i} className="text-xs text-slate-500 italic mt-1">“{ex}”</p>)}
+            </div>
+            <button onClick={() => setTone({ name: t.name, description: t.description, examples: t.examples.join('\n') })} className={smallButton}>Edit</button>
+            <button onClick={() => run(() => deleteTone(t.name), 'Tone deleted.')} className={`${smallButton} hover:text-red-400`}>Delete</button>
+          </div>
+        ))}
+        <form onSubmit={handleSaveTone} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input required className={inputClass} placeholder="Tone name" value={tone.name} onChange={e => setTone({ ...tone, name: e.target.value })} />
+            <input required className={inputClass} placeholder="Description" value={tone.description} onChange={e => setTone({ ...tone, description: e.target.value })} />
+          </div>
+          <textarea rows={3} className={`${inputClass} resize-none`} placeholder="Example sentences, one per line" value={tone.examples} onChange={e => setTone({ ...tone, examples: e.target.value })} />
+          <button type="submit" disabled={!can(user, 'styles:edit')} className={primaryButton}>Save Tone</button>
+        </form>
+      </section>
+
+      {can(user, 'styles:manage') && (
+        <section className="glass-panel rounded-2xl p-6 space-y-4">
+          <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">House Styles</h3>
+          {styles.houseStyles.map(s => (
+            <div key={s.id} className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-white">{s.name}</p>
+                <p className="text-[10px] text-slate-500 font-mono">
+                  {s.tone} · {LENGTH_TARGETS[s.length].label} · {s.includeSpoilers ? 'spoilers' : 'spoiler-free'} · {s.templateName}
+                  {s.bannedPhrases.length > 0 && ` · ${s.bannedPhrases.length} banned`}
+                </p>
+              </div>
+              <button onClick={() => editHouseStyle(s)} className={smallButton}>Edit</button>
+              <button onClick={() => run(() => deleteHouseStyle(s.id), 'House style deleted.')} className={`${smallButton} hover:text-red-400`}>Delete</button>
+            </div>
+          ))}
+          <form onSubmit={handleSaveHouseStyle} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input required className={inputClass} placeholder="Preset name, e.g. Weekend Edition" value={houseStyle.name} onChange={e => setHouseStyle({ ...houseStyle, name: e.target.value })} />
+              <select className={`${inputClass} appearance-none`} value={houseStyle.templateName} onChange={e => setHouseStyle({ ...houseStyle, templateName: e.target.value })}>
+                {templates.map(t => <option key={t.name} value={t.name} className="bg-slate-900">{t.name}</option>)}
+              </select>
+              <select className={`${inputClass} appearance-none`} value={houseStyle.tone} onChange={e => setHouseStyle({ ...houseStyle, tone: e.target.value })}>
+                {allTones().map(t => <option key={t.name} value={t.name} className="bg-slate-900">{t.name}</option>)}
+              </select>
+              <select className={`${inputClass} appearance-none`} value={houseStyle.length} onChange={e => setHouseStyle({ ...houseStyle, length: e.target.value as RecapLength })}>
+                {(Object.keys(LENGTH_TARGETS) as RecapLength[]).map(len => <option key={len} value={len} className="bg-slate-900">{LENGTH_TARGETS[len].label}</option>)}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={houseStyle.includeSpoilers} onChange={e => setHouseStyle({ ...houseStyle, includeSpoilers: e.target.checked })} className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-amber-500" />
+              <span className="text-xs font-semibold">Allow spoilers</span>
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <textarea rows={3} className={`${inputClass} resize-none`} placeholder="Banned phrases, one per line" value={houseStyle.bannedPhrases} onChange={e => setHouseStyle({ ...houseStyle, bannedPhrases: e.target.value })} />
+              <textarea rows={3} className={`${inputClass} resize-none`} placeholder="Required sign-offs, one per line (any one is accepted)" value={houseStyle.signOffs} onChange={e => setHouseStyle({ ...houseStyle, signOffs: e.target.value })} />
+            </div>
+            <div className="flex gap-3">
+              <button type="submit" className={primaryButton}>{houseStyle.id ? 'Update Preset' : 'Save Preset'}</button>
+              {houseStyle.id && <button type="button" onClick={() => setHouseStyle(EMPTY_STYLE)} className={smallButton}>Cancel Edit</button>}
+            </div>
+          </form>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default StyleStudio;
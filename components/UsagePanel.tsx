@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditAction, AuditEntry, QuotaLimit, QuotaRule, StoredUser, UsageRecord, User } from '../types';
+import { listUsers } from '../services/authService';
+import { AUDIT_ACTIONS, auditLabel, listAudit, toAuditCsv } from '../services/auditLog';
+import {
+  QUOTA_PERIODS,
+  QUOTA_UNITS,
+  QuotaPeriod,
+  deleteQuotaRule,
+  effectiveQuota,
+  listQuotaRules,
+  listUsage,
+  periodStart,
+  quotaRuleId,
+  saveQuotaRule,
+  totalUsage
+} from '../services/metering';
+import { ROLES, ROLE_LABELS, assertCan, permissionsFor } from '../services/permissions';
+import { downloadText } from '../services/download';
+
+interface UsagePanelProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+type Tab = 'usage' | 'quotas' | 'audit';
+
+const TABS: { key: Tab; label: string }[] = [
+  { key: 'usage', label: 'Usage' },
+  { key: 'quotas', label: 'Quotas' },
+  { key: 'audit', label: 'Audit Log' }
+];
+
+const inputClass = 'bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-amber-500/50 text-white text-sm';
+const smallButton = 'px-3 py-2 rounded-lg border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-400 transition-colors';
+
+// Only roles that can generate are worth a quota.
+const METERED_ROLES = ROLES.filter(role => permissionsFor(role).includes('recap:generate'));
+
+const RECENT_LIMIT = 100;
+const AUDIT_PAGE = 200;
+
+const formatCount = (n: number) => n.toLocaleString();
+
+const formatUsed = (used: number, limit?: number) =>
+  limit === undefined ? formatCount(used) : `${formatCount(used)} / ${formatCount(limit)}`;
+
+// --- Quota editor ---
+
+type Draft = Record<QuotaPeriod, Record<keyof QuotaLimit, string>>;
+
+const toDraft = (rule?: QuotaRule): Draft =>
+  Object.fromEntries(QUOTA_PERIODS.map(({ period }) => [
+    period,
+    Object.fromEntries(QUOTA_UNITS.map(({ unit }) => [unit, rule?.[period][unit]?.toString() ?? '']))
+  ])) as Draft;
+
+// Blank means no limit; anything else is a whole number of at least zero.
+const fromDraft = (draft: Draft): Pick<QuotaRule, 'daily' | 'monthly'> => {
+  const parse = (limit: Record<keyof QuotaLimit, string>): QuotaLimit =>
+    Object.fromEntries(
+      QUOTA_UNITS
+        .filter(({ unit }) => limit[unit].trim() !== '')
+        .map(({ unit }) => {
+          const value = Number(limit[unit]);
+          if (!Number.isFinite(value) || value < 0) throw new Error(`"${limit[unit]}" is not a valid limit.`);
+          return [unit, Math.floor(value)];
+        })
+    );
+  return { daily: parse(draft.daily), monthly: parse(draft.monthly) };
+};
+
+interface QuotaRowProps {
+  label: string;
+  hint: string;
+  rule?: QuotaRule;
+  onSave: (draft: Draft) => void;
+  onRemove?: () => void;
+}
+
+const QuotaRow: React.FC<QuotaRowProps> = ({ label, hint, rule, onSave, onRemove }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(rule));
+  useEffect(() => setDraft(toDraft(rule)), [rule]);
+
+  const setField = (period: QuotaPeriod, unit: keyof QuotaLimit, value: string) =>
+    setDraft(prev => ({ ...prev, [period]: { ...prev[period], [unit]: value } }));
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800/50 rounded-xl p-4 grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-4 items-center">
+      <div className="min-w-0">
+        <p className="text-sm font-bold text-white truncate">{label}</p>
+        <p className="text-[10px] text-slate-500 font-mono">{hint}</p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {QUOTA_PERIODS.map(({ period, label: periodLabel }) => QUOTA_UNITS.map(({ unit, label: unitLabel }) => (
+          <label key={`${period}-${unit}`} className="space-y-1">
+            <span className="block text-[10px] font-bold uppercase tracking-widest text-slate-500">{periodLabel} {unitLabel}</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="No limit"
+              className={`${inputClass} w-full`}
+              value={draft[period][unit]}
+              onChange={e => setField(period, unit, e.target.value)}
+            />
+          </label>
+        )))}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => onSave(draft)} className={`${smallButton} hover:text-emerald-400`}>Save</button>
+        {onRemove && <button onClick={onRemove} className={`${smallButton} hover:text-red-400`}>Remove</button>}
+      </div>
+    </div>
+  );
+};
+
+// --- Panel ---
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ currentUser, onClose }) => {
+  const [tab, setTab] = useState<Tab>('usage');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [rules, setRules] = useState<QuotaRule[]>([]);
+  const [users, setUsers] = useState<StoredUser[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [auditFilter, setAuditFilter] = useState<{ action: AuditAction | ''; search: string }>({ action: '', search: '' });
+  const [overrideFor, setOverrideFor] = useState('');
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const refresh = async () => {
+    const [r, q, u, a] = await Promise.all([listUsage(), listQuotaRules(), listUsers(), listAudit()]);
+    setRecords(r.sort((x, y) => y.startedAt - x.startedAt));
+    setRules(q);
+    setUsers(u.sort((x, y) => x.username.localeCompare(y.username)));
+    setAudit(a);
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  // Runs an admin action, then reloads everything and reports the outcome.
+  const run = async (action: () => Promise<string | void>) => {
+    setMessage(null);
+    try {
+      assertCan(currentUser, 'usage:manage');
+      const ok = await action();
+      if (ok) setMessage({ kind: 'ok', text: ok });
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message || 'Action failed.' });
+    }
+    await refresh();
+  };
+
+  const perUser = useMemo(() => {
+    const dayStart = periodStart('daily');
+    const monthStart = periodStart('monthly');
+    return users.map(u => {
+      const own = records.filter(r => r.username === u.username);
+      return {
+        user: u,
+        today: totalUsage(own.filter(r => r.startedAt >= dayStart)),
+        month: totalUsage(own.filter(r => r.startedAt >= monthStart)),
+        limits: effectiveQuota(u, rules)
+      };
+    });
+  }, [users, records, rules]);
+
+  const userRules = rules.filter(r => r.scope === 'user').sort((a, b) => a.subject.localeCompare(b.subject));
+  const withoutOverride = users.filter(u => !rules.some(r => r.id === quotaRuleId('user', u.username)));
+
+  const filteredAudit = audit.filter(entry =>
+    (!auditFilter.action || entry.action === auditFilter.action) &&
+    (!auditFilter.search || `${entry.username} ${entry.deviceId} ${entry.detail}`.toLowerCase().includes(auditFilter.search.toLowerCase()))
+  );
+
+  const exportAudit = () =>
+    run(async () => {
+      downloadText(`cinerecap-audit-${new Date().toISOString().slice(0, 10)}.csv`, toAuditCsv(filteredAudit), 'text/csv');
+    });
+
+  const saveRule = (scope: QuotaRule['scope'], subject: string, label: string) =>
+    (draft: Draft) =>
+      run(async () => {
+        await saveQuotaRule(scope, subject, fromDraft(draft), currentUser);
+        return `Saved quotas for ${label}.`;
+      });
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-display font-bold text-white">Usage & Audit</h2>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-amber-400 transition-colors">Back to Studio</button>
+      </div>
+
+      <div className="flex gap-2">
+        {TABS.map(t => (
+          <button
+            key={t.key}
+            onClick={() => setTab(t.key)}
+            className={`px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${tab === t.key ? 'bg-amber-500 border-amber-500 text-slate-950' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl text-xs font-medium border ${message.kind === 'ok' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {tab === 'usage' && (
+        <>
+          <section className="glass-panel rounded-2xl p-6 space-y-4">
+            <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">By User</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                    <th className="text-start py-2">User</th>
+                    <th className="text-end py-2">Today · requests</th>
+                    <th className="text-end py-2">Today · tokens</th>
+                    <th className="text-end py-2">Month · requests</th>
+                    <th className="text-end py-2">Month · tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {perUser.map(({ user, today, month, limits }) => (
+                    <tr key={user.username} className="border-t border-slate-800/50 font-mono text-xs text-slate-300">
+                      <td className="py-2 font-sans">
+                        <span className="font-bold text-white">{user.username}</span>
+                        <span className="ms-2 text-[10px] uppercase tracking-wider text-slate-500">{ROLE_LABELS[user.role]}</span>
+                      </td>
+                      <td className="py-2 text-end">{formatUsed(today.requests, limits.daily.requests)}</td>
+                      <td className="py-2 text-end">{formatUsed(today.tokens, limits.daily.tokens)}</td>
+                      <td className="py-2 text-end">{formatUsed(month.requests, limits.monthly.requests)}</td>
+                      <td className="py-2 text-end">{formatUsed(month.tokens, limits.monthly.tokens)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="glass-panel rounded-2xl p-6 space-y-4">
+            <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Recent Requests</h3>
+            {records.length === 0 && <p className="text-sm text-slate-500">No requests recorded yet.</p>}
+            <ul className="space-y-2">
+              {records.slice(0, RECENT_LIMIT).map(r => (
+                <li key={r.id} className="bg-slate-900/40 border border-slate-800/50 rounded-xl px-4 py-3 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">
+                      <span className="font-bold">{r.username}</span>
+                      <span className="text-slate-500"> · {r.purpose}{r.attempt ? ` (retry ${r.attempt})` : ''} · {r.providerId}/{r.model}</span>
+                    </p>
+                    <p className="text-[10px] text-slate-500 font-mono">
+                      {new Date(r.startedAt).toLocaleString()} · device {r.deviceId}
+                      {r.error && <span className="text-red-400"> · {r.error}</span>}
+                    </p>
+                  </div>
+                  <p className={`text-[10px] font-mono text-end ${r.outcome === 'ok' || r.outcome === 'pending' ? 'text-slate-400' : 'text-red-400'}`}>
+                    {r.usage ? `${formatCount(r.usage.promptTokens)} in · ${formatCount(r.usage.outputTokens)} out` : 'no token count'}
+                    {' · '}{(r.latencyMs / 1000).toFixed(1)}s{r.outcome === 'ok' ? '' : ` · ${r.outcome}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </>
+      )}
+
+      {tab === 'quotas' && (
+        <section className="glass-panel rounded-2xl p-6 space-y-4">
+          <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Quotas</h3>
+          <p className="text-xs text-slate-500">
+            Limits are checked before each request is sent. Days start at local midnight and months on the 1st.
+            A user's own limits replace their role's limits field by field. Blank fields fall back to the role, or mean no limit.
+          </p>
+          {METERED_ROLES.map(role => (
+            <QuotaRow
+              key={role}
+              label={ROLE_LABELS[role]}
+              hint="Every user with this role"
+              rule={rules.find(r => r.id === quotaRuleId('role', role))}
+              onSave={saveRule('role', role, `the ${ROLE_LABELS[role]} role`)}
+            />
+          ))}
+          {userRules.map(rule => (
+            <QuotaRow
+              key={rule.id}
+              label={rule.subject}
+              hint={`Override · updated by ${rule.updatedBy}`}
+              rule={rule}
+              onSave={saveRule('user', rule.subject, rule.subject)}
+              onRemove={() => run(async () => { await deleteQuotaRule(rule.id); return `Removed the override for ${rule.subject}.`; })}
+            />
+          ))}
+          {withoutOverride.length > 0 && (
+            <div className="flex gap-3 pt-2">
+              <select className={`${inputClass} flex-1 appearance-none`} value={overrideFor} onChange={e => setOverrideFor(e.target.value)}>
+                <option value="" className="bg-slate-900">Add a per-user override...</option>
+                {withoutOverride.map(u => <option key={u.username} value={u.username} className="bg-slate-900">{u.username} ({ROLE_LABELS[u.role]})</option>)}
+              </select>
+              <button
+                disabled={!overrideFor}
+                onClick={() => run(async () => {
+                  await saveQuotaRule('user', overrideFor, { daily: {}, monthly: {} }, currentUser);
+                  setOverrideFor('');
+                })}
+                className={`${smallButton} hover:text-white disabled:opacity-40`}
+              >
+                Add
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {tab === 'audit' && (
+        <section className="glass-panel rounded-2xl p-6 space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="font-bold text-amber-500 text-xs uppercase tracking-widest">Audit Log</h3>
+            <button onClick={exportAudit} disabled={!filteredAudit.length} className={`${smallButton} hover:text-white disabled:opacity-40`}>Export CSV</button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select className={`${inputClass} appearance-none`} value={auditFilter.action} onChange={e => setAuditFilter({ ...auditFilter, action: e.target.value as AuditAction | '' })}>
+              <option value="" className="bg-slate-900">All events</option>
+              {AUDIT_ACTIONS.map(a => <option key={a.action} value={a.action} className="bg-slate-900">{a.label}</option>)}
+            </select>
+            <input placeholder="Filter by user, device or detail" className={`${inputClass} md:col-span-2`} value={auditFilter.search} onChange={e => setAuditFilter({ ...auditFilter, search: e.target.value })} />
+          </div>
+          <p className="text-[10px] text-slate-500 font-mono">
+            {filteredAudit.length} of {audit.length} entries{filteredAudit.length > AUDIT_PAGE && ` · showing the newest ${AUDIT_PAGE}; the CSV has them all`}
+          </p>
+          <ul className="space-y-1">
+            {filteredAudit.slice(0, AUDIT_PAGE).map(entry => (
+              <li key={entry.seq} className="grid grid-cols-[9rem_8rem_1fr] gap-3 text-xs border-t border-slate-800/50 py-2">
+                <span className="text-slate-500 font-mono">{new Date(entry.at).toLocaleString()}</span>
+                <span className={`font-bold uppercase tracking-wider text-[10px] ${entry.action === 'login_failed' || entry.action === 'device_denied' || entry.action === 'quota_exceeded' ? 'text-red-400' : 'text-amber-500'}`}>
+                  {auditLabel(entry.action)}
+                </span>
+                <span className="text-slate-300 min-w-0 break-words">
+                  <span className="font-bold text-white">{entry.username}</span>
+                  <span className="text-slate-500 font-mono"> · {entry.deviceId}</span>
+                  {entry.detail && <span> · {entry.detail}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
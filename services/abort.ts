@@ -0,0 +1,8 @@
+export const abortError = () => new DOMException('Recap generation was cancelled.', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
@@ -0,0 +1,51 @@
+import { AuditAction, AuditEntry } from "../types";
+import { STORES, withStore } from "./db";
+
+// Append-only record of security-relevant events. Entries are only ever
+// added (never put over or deleted), and nothing in the app exposes a way to
+// edit or clear them.
+
+export const AUDIT_ACTIONS: { action: AuditAction; label: string }[] = [
+  { action: 'login', label: 'Sign-in' },
+  { action: 'login_failed', label: 'Failed sign-in' },
+  { action: 'device_denied', label: 'Unenrolled device' },
+  { action: 'generation', label: 'Generation' },
+  { action: 'quota_exceeded', label: 'Over quota' },
+  { action: 'export', label: 'Export' }
+];
+
+export const auditLabel = (action: AuditAction): string =>
+  AUDIT_ACTIONS.find(a => a.action === action)?.label ?? action;
+
+export interface AuditActor {
+  username: string;
+  deviceId: string;
+}
+
+/** Never throws: a failed audit write is logged but must not block the action itself. */
+export const appendAudit = async (action: AuditAction, actor: AuditActor, detail = ''): Promise<void> => {
+  const entry: AuditEntry = { at: Date.now(), action, username: actor.username, deviceId: actor.deviceId, detail };
+  try {
+    await withStore(STORES.audit, 'readwrite', store => store.add(entry));
+  } catch (err) {
+    console.warn('Could not write audit entry', entry, err);
+  }
+};
+
+/** Newest first. */
+export const listAudit = async (): Promise<AuditEntry[]> =>
+  (await withStore<AuditEntry[]>(STORES.audit, 'readonly', store => store.getAll())).reverse();
+
+// Titles and usernames are user input; a leading = + - @ would run as a spreadsheet formula.
+const csvCell = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toAuditCsv = (entries: AuditEntry[]): string =>
+  [
+    ['seq', 'time', 'action', 'username', 'deviceId', 'detail'],
+    ...entries.map(e => [e.seq ?? '', new Date(e.at).toISOString(), e.action, e.username, e.deviceId, e.detail])
+  ]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
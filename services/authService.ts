@@ -0,0 +1,303 @@
+import { DeviceRequest, PasswordHash, Role, Session, StoredUser, User } from "../types";
+import { STORES, createId, withStore } from "./db";
+import { appendAudit } from "./auditLog";
+
+// Credentials and enrolled devices live in IndexedDB; only salted PBKDF2
+// hashes are ever stored. Sessions are short-lived localStorage records tied
+// to the device they were issued on.
+
+const PBKDF2_ITERATIONS = 210_000;
+const SESSION_KEY = 'cinerecap_session';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const EXPORT_VERSION = 1;
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'DEVICE_NOT_ENROLLED'
+  | 'USER_EXISTS'
+  | 'WEAK_PASSWORD'
+  | 'BAD_SIGNATURE'
+  | 'BAD_EXPORT';
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+// Improved fingerprinting to be more unique to specific hardware
+export const getDeviceFingerprint = (): string => {
+  const nav = window.navigator;
+  const screen = window.screen;
+  const idString = [
+    nav.userAgent,
+    nav.platform,
+    nav.hardwareConcurrency || 'unknown',
+    screen.width + 'x' + screen.height,
+    screen.availWidth + 'x' + screen.availHeight,
+    new Date().getTimezoneOffset(),
+    'v1' // Versioning the fingerprint logic
+  ].join('|');
+  
+  try {
+    // Generate a shorter, cleaner 12-character ID
+    return btoa(idString).replace(/[^a-zA-Z0-0]/g, '').slice(-12).toUpperCase();
+  } catch (e) {
+    return 'ERR-DEVICE-ID';
+  }
+};
+
+// --- WebCrypto helpers ---
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const encoder = new TextEncoder();
+
+const deriveBits = async (secret: string, salt: BufferSource, iterations: number): Promise<ArrayBuffer> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  return crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+};
+
+// Constant-time comparison so verification time does not leak the hash.
+const safeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await deriveBits(password, salt, PBKDF2_ITERATIONS);
+  return { algorithm: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await deriveBits(password, fromBase64(stored.salt), stored.iterations);
+  return safeEqual(new Uint8Array(hash), fromBase64(stored.hash));
+};
+
+// --- Registry ---
+
+// Registries written before roles existed only carry an `isAdmin` flag.
+const normalizeUser = (user: StoredUser & { isAdmin?: boolean }): StoredUser => {
+  if (user.role) return user;
+  const { isAdmin, ...rest } = user;
+  return { ...rest, role: isAdmin ? 'admin' : 'editor' };
+};
+
+export const listUsers = async (): Promise<StoredUser[]> =>
+  (await withStore<StoredUser[]>(STORES.users, 'readonly', store => store.getAll())).map(normalizeUser);
+
+export const getStoredUser = async (username: string): Promise<StoredUser | undefined> => {
+  const user = await withStore<StoredUser | undefined>(STORES.users, 'readonly', store => store.get(username));
+  return user && normalizeUser(user);
+};
+
+const putUser = async (user: StoredUser): Promise<StoredUser> => {
+  await withStore(STORES.users, 'readwrite', store => store.put(user));
+  return user;
+};
+
+export const hasAnyUsers = async (): Promise<boolean> =>
+  (await withStore<number>(STORES.users, 'readonly', store => store.count())) > 0;
+
+const assertPassword = (password: string) => {
+  if (password.length < 8) throw new AuthError('WEAK_PASSWORD', 'Passwords must be at least 8 characters.');
+};
+
+export const createUser = async (
+  username: string,
+  password: string,
+  role: Role,
+  deviceIds: string[] = []
+): Promise<StoredUser> => {
+  const name = username.trim();
+  if (await getStoredUser(name)) throw new AuthError('USER_EXISTS', `User "${name}" already exists.`);
+  assertPassword(password);
+  return putUser({ username: name, password: await hashPassword(password), role, deviceIds, createdAt: Date.now() });
+};
+
+export const setPassword = async (username: string, password: string): Promise<StoredUser> => {
+  const user = await getStoredUser(username);
+  if (!user) throw new AuthError('INVALID_CREDENTIALS', `Unknown user "${username}".`);
+  assertPassword(password);
+  return putUser({ ...user, password: await hashPassword(password) });
+};
+
+export const setRole = async (username: string, role: Role): Promise<StoredUser> => {
+  const user = await getStoredUser(username);
+  if (!user) throw new AuthError('INVALID_CREDENTIALS', `Unknown user "${username}".`);
+  return putUser({ ...user, role });
+};
+
+export const deleteUser = async (username: string): Promise<void> => {
+  await withStore(STORES.users, 'readwrite', store => store.delete(username));
+};
+
+export const revokeDevice = async (username: string, deviceId: string): Promise<StoredUser | undefined> => {
+  const user = await getStoredUser(username);
+  if (!user) return undefined;
+  return putUser({ ...user, deviceIds: user.deviceIds.filter(id => id !== deviceId) });
+};
+
+// --- Device enrollment ---
+
+export const listDeviceRequests = (): Promise<DeviceRequest[]> =>
+  withStore<DeviceRequest[]>(STORES.deviceRequests, 'readonly', store => store.getAll());
+
+const requestEnrollment = async (username: string, deviceId: string): Promise<DeviceRequest> => {
+  const existing = (await listDeviceRequests()).find(
+    r => r.username === username && r.deviceId === deviceId && r.status === 'pending'
+  );
+  if (existing) return existing;
+  const request: DeviceRequest = { id: createId(), username, deviceId, requestedAt: Date.now(), status: 'pending' };
+  await withStore(STORES.deviceRequests, 'readwrite', store => store.put(request));
+  return request;
+};
+
+export const resolveDeviceRequest = async (request: DeviceRequest, approve: boolean): Promise<DeviceRequest> => {
+  if (approve) {
+    const user = await getStoredUser(request.username);
+    if (user && !user.deviceIds.includes(request.deviceId)) {
+      await putUser({ ...user, deviceIds: [...user.deviceIds, request.deviceId] });
+    }
+  }
+  const resolved: DeviceRequest = { ...request, status: approve ? 'approved' : 'denied' };
+  await withStore(STORES.deviceRequests, 'readwrite', store => store.put(resolved));
+  return resolved;
+};
+
+// --- Sessions ---
+
+// Services that act for the signed-in user (metering, export auditing) read it from here.
+let activeUser: User | null = null;
+
+export const getActiveUser = (): User | null => activeUser;
+
+const toUser = (stored: StoredUser, deviceId: string): User =>
+  ({ username: stored.username, deviceId, role: stored.role });
+
+const startSession = (stored: StoredUser, deviceId: string): User => {
+  const now = Date.now();
+  const session: Session = { username: stored.username, deviceId, issuedAt: now, expiresAt: now + SESSION_TTL_MS };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  activeUser = toUser(stored, deviceId);
+  return activeUser;
+};
+
+export const endSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+  activeUser = null;
+};
+
+/** Restores the saved session if it is unexpired and the device is still enrolled. */
+export const restoreSession = async (deviceId: string): Promise<User | null> => {
+  let session: Session | null = null;
+  try {
+    session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+  } catch {
+    // corrupt entry; treated as signed out
+  }
+  if (!session || session.deviceId !== deviceId || session.expiresAt <= Date.now()) {
+    endSession();
+    return null;
+  }
+  const stored = await getStoredUser(session.username);
+  if (!stored || !stored.deviceIds.includes(deviceId)) {
+    endSession();
+    return null;
+  }
+  activeUser = toUser(stored, deviceId);
+  return activeUser;
+};
+
+/**
+ * Verifies credentials for this device. Unknown devices get a pending
+ * enrollment request and a DEVICE_NOT_ENROLLED error until an admin approves.
+ */
+export const login = async (username: string, password: string, deviceId: string): Promise<User> => {
+  const stored = await getStoredUser(username.trim());
+  if (!stored || !(await verifyPassword(password, stored.password))) {
+    await appendAudit('login_failed', { username: username.trim(), deviceId }, stored ? 'Wrong password' : 'Unknown user');
+    throw new AuthError('INVALID_CREDENTIALS', 'Invalid username or password.');
+  }
+  if (!stored.deviceIds.includes(deviceId)) {
+    await requestEnrollment(stored.username, deviceId);
+    await appendAudit('device_denied', { username: stored.username, deviceId }, 'Enrollment request filed');
+    throw new AuthError(
+      'DEVICE_NOT_ENROLLED',
+      `This device (${deviceId}) is not registered for "${stored.username}". An enrollment request has been sent to the admins.`
+    );
+  }
+  await appendAudit('login', { username: stored.username, deviceId });
+  return startSession(stored, deviceId);
+};
+
+/** First run only: creates the initial admin, enrolled on the current device. */
+export const bootstrapAdmin = async (username: string, password: string, deviceId: string): Promise<User> => {
+  if (await hasAnyUsers()) throw new AuthError('USER_EXISTS', 'This deployment already has users.');
+  const stored = await createUser(username, password, 'admin', [deviceId]);
+  await appendAudit('login', { username: stored.username, deviceId }, 'First admin account created');
+  return startSession(stored, deviceId);
+};
+
+// --- Signed export / import ---
+
+interface UserExport {
+  version: number;
+  exportedAt: number;
+  users: StoredUser[];
+  signature: string; // base64 HMAC-SHA256 over the other fields
+}
+
+// The signing key is derived from a passphrase shared between deployments.
+const signingKey = (passphrase: string) =>
+  deriveBits(passphrase, encoder.encode('cinerecap-user-export'), PBKDF2_ITERATIONS).then(bits =>
+    crypto.subtle.importKey('raw', bits, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+  );
+
+const signedPayload = ({ version, exportedAt, users }: Omit<UserExport, 'signature'>) =>
+  encoder.encode(JSON.stringify({ version, exportedAt, users }));
+
+export const exportUsers = async (passphrase: string): Promise<string> => {
+  const body = { version: EXPORT_VERSION, exportedAt: Date.now(), users: await listUsers() };
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(passphrase), signedPayload(body));
+  const file: UserExport = { ...body, signature: toBase64(signature) };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Verifies the signature and merges the users in, replacing same-named accounts. */
+export const importUsers = async (json: string, passphrase: string): Promise<number> => {
+  let file: UserExport;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new AuthError('BAD_EXPORT', 'The file is not valid JSON.');
+  }
+  if (file?.version !== EXPORT_VERSION || !Array.isArray(file.users) || typeof file.signature !== 'string') {
+    throw new AuthError('BAD_EXPORT', 'The file is not a CineRecap user export.');
+  }
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await signingKey(passphrase),
+    fromBase64(file.signature),
+    signedPayload(file)
+  );
+  if (!valid) throw new AuthError('BAD_SIGNATURE', 'Signature check failed. Wrong passphrase or the file was modified.');
+
+  for (const user of file.users) await putUser(normalizeUser(user));
+  return file.users.length;
+};
@@ -0,0 +1,161 @@
+import { MovieInfo, RecapLength } from "../types";
+import { OUTPUT_LANGUAGES } from "./languages";
+
+export interface ImportRowError {
+  row: number; // 1-based data row, as a spreadsheet would show it
+  message: string;
+}
+
+export interface ImportResult {
+  rows: MovieInfo[];
+  errors: ImportRowError[];
+}
+
+const LENGTHS: RecapLength[] = ['short', 'medium', 'detailed'];
+
+type ImportField = Exclude<keyof MovieInfo, 'houseStyleId' | 'spoilerMode'>;
+
+// Accepted spellings for each MovieInfo field, compared after normalizeKey.
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'movie', 'film', 'movietitle'],
+  genre: ['genre'],
+  director: ['director', 'directedby'],
+  keyPlotPoints: ['keyplotpoints', 'plotpoints', 'plot', 'notes'],
+  tone: ['tone'],
+  includeSpoilers: ['includespoilers', 'spoilers'],
+  length: ['length', 'recaplength'],
+  templateName: ['template', 'templatename'],
+  language: ['language', 'lang', 'outputlanguage']
+};
+
+// Accepts a language code or its English or native name.
+const matchLanguage = (value: string): string | undefined => {
+  const wanted = value.trim().toLowerCase();
+  return OUTPUT_LANGUAGES.find(l => [l.code, l.label.toLowerCase(), l.nativeName.toLowerCase()].includes(wanted))?.code;
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z]/g, '');
+
+/** RFC 4180 parsing: quoted fields, doubled quotes, embedded newlines. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+  return rows;
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (value === undefined || value === null || value === '') return false;
+  const text = String(value).trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(text)) return true;
+  if (['no', 'n', 'false', '0'].includes(text)) return false;
+  return null;
+};
+
+// Maps one loose record onto MovieInfo, collecting every problem in the row.
+const toMovieInfo = (record: Record<string, unknown>, defaults: MovieInfo): MovieInfo | string => {
+  const byKey = new Map(Object.entries(record).map(([k, v]) => [normalizeKey(k), v]));
+  const pick = (field: ImportField) => {
+    for (const alias of FIELD_ALIASES[field]) if (byKey.has(alias)) return byKey.get(alias);
+    return undefined;
+  };
+  const text = (field: ImportField, fallback: string) => {
+    const value = pick(field);
+    return value === undefined || value === null || String(value).trim() === '' ? fallback : String(value).trim();
+  };
+
+  const problems: string[] = [];
+  const title = text('title', '');
+  if (!title) problems.push('title is required');
+
+  const spoilers = parseBoolean(pick('includeSpoilers'));
+  if (spoilers === null) problems.push(`includeSpoilers "${pick('includeSpoilers')}" is not yes/no`);
+
+  const length = text('length', defaults.length).toLowerCase() as RecapLength;
+  if (!LENGTHS.includes(length)) problems.push(`length "${length}" must be one of ${LENGTHS.join(', ')}`);
+
+  const languageText = text('language', defaults.language ?? '');
+  const language = languageText ? matchLanguage(languageText) : undefined;
+  if (languageText && !language) problems.push(`language "${languageText}" is not supported`);
+
+  if (problems.length) return problems.join('; ');
+  return {
+    title,
+    genre: text('genre', ''),
+    director: text('director', ''),
+    keyPlotPoints: text('keyPlotPoints', ''),
+    tone: text('tone', defaults.tone),
+    includeSpoilers: spoilers ?? defaults.includeSpoilers,
+    length,
+    templateName: text('templateName', defaults.templateName ?? '') || undefined,
+    houseStyleId: defaults.houseStyleId,
+    language,
+    spoilerMode: defaults.spoilerMode
+  };
+};
+
+const collect = (records: unknown[], defaults: MovieInfo): ImportResult => {
+  const result: ImportResult = { rows: [], errors: [] };
+  records.forEach((record, i) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      result.errors.push({ row: i + 1, message: 'is not an object' });
+      return;
+    }
+    const movie = toMovieInfo(record as Record<string, unknown>, defaults);
+    if (typeof movie === 'string') result.errors.push({ row: i + 1, message: movie });
+    else result.rows.push(movie);
+  });
+  return result;
+};
+
+/**
+ * Reads a CSV (header row required) or JSON array of films. Missing tone and
+ * length fall back to `defaults`; rows that cannot be used are reported.
+ */
+export const importMovies = (text: string, filename: string, defaults: MovieInfo): ImportResult => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (filename.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { rows: [], errors: [{ row: 0, message: 'The file is not valid JSON.' }] };
+    }
+    const list = Array.isArray(data) ? data : (data as { movies?: unknown[] })?.movies;
+    if (!Array.isArray(list)) {
+      return { rows: [], errors: [{ row: 0, message: 'Expected a JSON array of films (or { "movies": [...] }).' }] };
+    }
+    return collect(list, defaults);
+  }
+
+  const [header, ...lines] = parseCsv(trimmed);
+  if (!header) return { rows: [], errors: [{ row: 0, message: 'The file is empty.' }] };
+  return collect(
+    lines.map(cells => Object.fromEntries(header.map((key, i) => [key, cells[i] ?? '']))),
+    defaults
+  );
+};
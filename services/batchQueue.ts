@@ -0,0 +1,238 @@
+import { BatchJob, GeneratedRecap, JobStatus, MovieInfo, ProviderSettings } from "../types";
+import { STORES, StoreName, createId, withStore } from "./db";
+import { isOnline, subscribeConnectivity } from "./connectivity";
+import { describeModel, generateMovieRecap } from "./recapProvider";
+import { saveRecap } from "./libraryService";
+import { QuotaError } from "./metering";
+
+// Background queue for batch generation. Jobs are persisted in IndexedDB as
+// they change state, so a reload picks up where the queue left off; jobs
+// that were mid-generation are simply run again. Nothing runs while the
+// browser is offline; the queue picks up again when the connection returns.
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+export interface QueueOptions {
+  store: StoreName;
+  /** localStorage key remembering whether the user paused the queue. */
+  pausedKey: string;
+  concurrency: number;
+  /** Hands completed jobs to onComplete again on attach, for queues that drop jobs once delivered. */
+  redeliver?: boolean;
+}
+
+const BATCH_OPTIONS: QueueOptions = { store: STORES.jobs, pausedKey: 'cinerecap_batch_paused', concurrency: 2 };
+
+type Runner = (job: BatchJob, signal: AbortSignal) => Promise<GeneratedRecap>;
+type Listener = (jobs: BatchJob[], paused: boolean) => void;
+
+const errorText = (err: any): string => String(err?.message ?? err ?? '');
+
+// Running out of a CineRecap quota is final until an admin or the calendar resets it.
+export const isRateLimitError = (err: any): boolean =>
+  !(err instanceof QuotaError) &&
+  (err?.status === 429 || /\b429\b|rate.?limit|resource.?exhausted|quota/i.test(errorText(err)));
+
+// Rate limits, dropped connections and overloaded servers are worth another try.
+const isRetryable = (err: any): boolean =>
+  isRateLimitError(err) ||
+  err instanceof TypeError ||
+  /\b50[0234]\b|unavailable|overloaded|timed? ?out/i.test(errorText(err));
+
+// Honours "retry in 12s"-style hints from the API, else exponential backoff with jitter.
+export const backoffDelay = (attempt: number, err: unknown): number => {
+  const hint = errorText(err).match(/retry (?:in|after)\D{0,3}([\d.]+)\s*s/i);
+  if (hint) return Math.min(Math.ceil(parseFloat(hint[1]) * 1000), MAX_BACKOFF_MS);
+  const exp = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(exp * (0.75 + Math.random() * 0.5));
+};
+
+export const createBatchQueue = (run: Runner, onComplete?: (job: BatchJob) => void, options: QueueOptions = BATCH_OPTIONS) => {
+  const { store: storeName, pausedKey, concurrency, redeliver = false } = options;
+  let owner: string | null = null;
+  const jobs = new Map<string, BatchJob>();
+  const running = new Map<string, AbortController>();
+  const listeners = new Set<Listener>();
+  let paused = localStorage.getItem(pausedKey) === 'true';
+  let holdUntil = 0; // queue-wide pause after a rate-limit response
+  let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const snapshot = () => [...jobs.values()].sort((a, b) => a.createdAt - b.createdAt);
+  const emit = () => listeners.forEach(listener => listener(snapshot(), paused));
+
+  const save = async (job: BatchJob) => {
+    // Jobs finishing after a sign-out are persisted but no longer shown.
+    if (job.owner === owner) {
+      jobs.set(job.id, job);
+      emit();
+    }
+    await withStore(storeName, 'readwrite', store => store.put(job));
+  };
+
+  // After a failed run the job is already updated in memory, so a failed write is only logged.
+  const saveAfterFailure = (job: BatchJob) =>
+    save(job).catch(err => console.warn('Could not save job state', err));
+
+  const isReady = (job: BatchJob, now: number) =>
+    job.status === JobStatus.QUEUED ||
+    (job.status === JobStatus.RETRY_WAIT && (job.nextAttemptAt ?? 0) <= now);
+
+  const scheduleWake = () => {
+    clearTimeout(wakeTimer);
+    if (paused || !owner) return;
+    const now = Date.now();
+    const waits = snapshot()
+      .filter(job => job.status === JobStatus.RETRY_WAIT)
+      .map(job => job.nextAttemptAt ?? now);
+    if (holdUntil > now) waits.push(holdUntil);
+    if (waits.length) wakeTimer = setTimeout(pump, Math.max(0, Math.min(...waits) - now));
+  };
+
+  const execute = async (job: BatchJob) => {
+    const controller = new AbortController();
+    running.set(job.id, controller);
+    let current: BatchJob = { ...job, status: JobStatus.GENERATING, attempts: job.attempts + 1, error: undefined };
+    try {
+      await save(current);
+      const result = await run(current, controller.signal);
+      current = { ...current, status: JobStatus.COMPLETED, result, nextAttemptAt: undefined };
+      await save(current);
+      onComplete?.(current);
+    } catch (err: any) {
+      // Aborted by remove() or detach(); they own the job's state.
+      if (controller.signal.aborted) return;
+      // Losing the connection is not the job's fault, so it costs no attempt.
+      if (!isOnline()) {
+        await saveAfterFailure({ ...current, status: JobStatus.QUEUED, attempts: job.attempts });
+        return;
+      }
+      if (isRetryable(err) && current.attempts < MAX_ATTEMPTS) {
+        const delay = backoffDelay(current.attempts, err);
+        if (isRateLimitError(err)) holdUntil = Math.max(holdUntil, Date.now() + delay);
+        await saveAfterFailure({ ...current, status: JobStatus.RETRY_WAIT, nextAttemptAt: Date.now() + delay, error: errorText(err) });
+      } else {
+        await saveAfterFailure({ ...current, status: JobStatus.ERROR, error: errorText(err) || 'Generation failed.' });
+      }
+    } finally {
+      running.delete(job.id);
+      pump();
+    }
+  };
+
+  function pump() {
+    if (paused || !owner || !isOnline()) return;
+    const now = Date.now();
+    if (holdUntil <= now) {
+      for (const job of snapshot()) {
+        if (running.size >= concurrency) break;
+        if (!running.has(job.id) && isReady(job, now)) execute(job);
+      }
+    }
+    scheduleWake();
+  }
+
+  const setPaused = (value: boolean) => {
+    paused = value;
+    localStorage.setItem(pausedKey, String(value));
+    emit();
+    if (value) clearTimeout(wakeTimer);
+    else pump();
+  };
+
+  // Queues live for the whole page, so this subscription is never removed.
+  if (typeof window !== 'undefined') subscribeConnectivity(online => { if (online) pump(); });
+
+  const updateJobs = async (ids: string[], patch: Partial<BatchJob>) => {
+    for (const id of ids) {
+      const job = jobs.get(id);
+      if (job) await save({ ...job, ...patch });
+    }
+    pump();
+  };
+
+  const removeJobs = async (ids: string[]) => {
+    for (const id of ids) {
+      running.get(id)?.abort();
+      jobs.delete(id);
+      await withStore(storeName, 'readwrite', store => store.delete(id));
+    }
+    emit();
+  };
+
+  return {
+    /** Loads the signed-in user's jobs and starts working through them. */
+    async attach(username: string) {
+      owner = username;
+      jobs.clear();
+      const stored = await withStore<BatchJob[]>(storeName, 'readonly', store =>
+        store.index('owner').getAll(IDBKeyRange.only(username))
+      );
+      if (owner !== username) return;
+      for (const job of stored) {
+        // Anything that was generating when the page unloaded starts over.
+        jobs.set(job.id, job.status === JobStatus.GENERATING ? { ...job, status: JobStatus.QUEUED } : job);
+      }
+      emit();
+      pump();
+      if (redeliver) stored.filter(job => job.status === JobStatus.COMPLETED).forEach(job => onComplete?.(job));
+    },
+
+    /** Stops work on sign-out; interrupted jobs resume on the next attach. */
+    detach() {
+      owner = null;
+      running.forEach(controller => controller.abort());
+      running.clear();
+      jobs.clear();
+      clearTimeout(wakeTimer);
+      emit();
+    },
+
+    async enqueue(movies: MovieInfo[], settings: ProviderSettings) {
+      if (!owner) throw new Error('Sign in before queueing recaps.');
+      const now = Date.now();
+      for (const [i, movie] of movies.entries()) {
+        await save({
+          id: createId(),
+          owner,
+          movie,
+          settings,
+          status: JobStatus.QUEUED,
+          attempts: 0,
+          createdAt: now + i // keeps import order stable
+        });
+      }
+      pump();
+    },
+
+    pause: () => setPaused(true),
+    resume: () => setPaused(false),
+
+    retry: (ids: string[]) =>
+      updateJobs(ids, { status: JobStatus.QUEUED, attempts: 0, error: undefined, nextAttemptAt: undefined }),
+
+    remove: removeJobs,
+
+    clearCompleted: () =>
+      removeJobs(snapshot().filter(job => job.status === JobStatus.COMPLETED).map(job => job.id)),
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      listener(snapshot(), paused);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type BatchQueue = ReturnType<typeof createBatchQueue>;
+
+export const batchQueue = createBatchQueue(
+  (job, signal) => generateMovieRecap(job.movie, job.settings, { signal }),
+  job => {
+    // Finished batch recaps land in the library like interactive ones.
+    saveRecap(job.owner, job.movie, job.result!, describeModel(job.settings)).catch(err =>
+      console.warn('Could not save batch recap to library', err)
+    );
+  }
+);
@@ -0,0 +1,87 @@
+import { GeneratedRecap, MovieInfo, ProviderSettings, RecapLength, RecapSection, VersusRecap } from "../types";
+import { RunOptions, generateMovieRecap, runConversation } from "./recapProvider";
+import { buildVersusPrompt } from "./recapPrompt";
+import { SECTION_LABELS } from "./refineService";
+import { applyVersusSpoilerGuard } from "./spoilerGuard";
+import { ensureStylesLoaded, resolvePromptContext } from "./styleService";
+
+// --- Variants: one film, several tones or lengths ---
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+export interface VariantSpec {
+  tone: string;
+  length: RecapLength;
+}
+
+export const variantMovie = (info: MovieInfo, { tone, length }: VariantSpec): MovieInfo => ({ ...info, tone, length });
+
+/** For each section, the index of the variant it is taken from. */
+export type SectionPicks = Record<RecapSection, number>;
+
+export const pickAll = (index: number): SectionPicks =>
+  Object.fromEntries(Object.keys(SECTION_LABELS).map(section => [section, index])) as SectionPicks;
+
+export const mergeVariants = (variants: GeneratedRecap[], picks: SectionPicks): GeneratedRecap => ({
+  tagline: variants[picks.tagline].tagline,
+  summary: variants[picks.summary].summary,
+  characterAnalysis: variants[picks.characterAnalysis].characterAnalysis,
+  keyTakeaways: variants[picks.keyTakeaways].keyTakeaways,
+  verdict: variants[picks.verdict].verdict,
+  scorecard: variants[picks.scorecard].scorecard
+});
+
+// The summary dominates a recap's length and voice, so its variant names the result.
+export const mergedSpec = (specs: VariantSpec[], picks: SectionPicks): VariantSpec => specs[picks.summary];
+
+// --- Versus: two films head to head ---
+
+export interface VersusResult {
+  first: GeneratedRecap;
+  second: GeneratedRecap;
+  versus: VersusRecap;
+}
+
+export const generateVersusRecap = async (
+  first: MovieInfo,
+  second: MovieInfo,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<VersusRecap> => {
+  await ensureStylesLoaded();
+  const { recap } = await runConversation<VersusRecap>(
+    { info: first, versus: second, messages: [{ role: 'user', text: buildVersusPrompt(first, second, resolvePromptContext(first)) }] },
+    settings,
+    options
+  );
+  return applyVersusSpoilerGuard(first, second, recap);
+};
+
+/** The comparison plus a regular recap of each film, so both can be shown in the usual layout. */
+export const generateVersus = async (
+  first: MovieInfo,
+  second: MovieInfo,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<VersusResult> => {
+  // One failed call cancels the other two instead of letting them run on unseen.
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  options.signal?.addEventListener('abort', cancel);
+  if (options.signal?.aborted) cancel();
+  const { signal } = controller;
+  try {
+    const [firstRecap, secondRecap, versus] = await Promise.all([
+      generateMovieRecap(first, settings, { signal }),
+      generateMovieRecap(second, settings, { signal }),
+      generateVersusRecap(first, second, settings, { signal })
+    ]);
+    return { first: firstRecap, second: secondRecap, versus };
+  } catch (err) {
+    cancel();
+    throw err;
+  } finally {
+    options.signal?.removeEventListener('abort', cancel);
+  }
+};
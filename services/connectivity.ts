@@ -0,0 +1,16 @@
+// navigator.onLine only knows whether there is a network interface, not
+// whether the API is reachable, so a failed request while "online" still goes
+// through the usual error handling.
+
+export const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/** Calls back with the new state whenever the browser goes online or offline. */
+export const subscribeConnectivity = (listener: (online: boolean) => void): (() => void) => {
+  const handle = () => listener(isOnline());
+  window.addEventListener('online', handle);
+  window.addEventListener('offline', handle);
+  return () => {
+    window.removeEventListener('online', handle);
+    window.removeEventListener('offline', handle);
+  };
+};
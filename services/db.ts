@@ -0,0 +1,104 @@
+// Shared IndexedDB connection. Every persisted collection lives in this one
+// database so the PWA keeps working offline; bump DB_VERSION and add the new
+// store in `upgrade` when introducing another collection.
+const DB_NAME = 'cinerecap';
+const DB_VERSION = 6;
+
+export const STORES = {
+  recaps: 'recaps',
+  users: 'users',
+  deviceRequests: 'deviceRequests',
+  jobs: 'jobs',
+  templates: 'templates',
+  tones: 'tones',
+  houseStyles: 'houseStyles',
+  outbox: 'outbox',
+  usage: 'usage',
+  quotas: 'quotas',
+  audit: 'audit',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.recaps)) {
+    const recaps = db.createObjectStore(STORES.recaps, { keyPath: 'id' });
+    recaps.createIndex('owner', 'owner');
+    recaps.createIndex('createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.users)) {
+    db.createObjectStore(STORES.users, { keyPath: 'username' });
+  }
+  if (!db.objectStoreNames.contains(STORES.deviceRequests)) {
+    const requests = db.createObjectStore(STORES.deviceRequests, { keyPath: 'id' });
+    requests.createIndex('username', 'username');
+  }
+  if (!db.objectStoreNames.contains(STORES.jobs)) {
+    const jobs = db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+    jobs.createIndex('owner', 'owner');
+  }
+  if (!db.objectStoreNames.contains(STORES.templates)) {
+    db.createObjectStore(STORES.templates, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.tones)) {
+    db.createObjectStore(STORES.tones, { keyPath: 'name' });
+  }
+  if (!db.objectStoreNames.contains(STORES.houseStyles)) {
+    db.createObjectStore(STORES.houseStyles, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.outbox)) {
+    const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+    outbox.createIndex('owner', 'owner');
+  }
+  if (!db.objectStoreNames.contains(STORES.usage)) {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+    usage.createIndex('username', 'username');
+    usage.createIndex('startedAt', 'startedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.quotas)) {
+    db.createObjectStore(STORES.quotas, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.audit)) {
+    // Auto-incremented keys keep the log in insertion order.
+    const audit = db.createObjectStore(STORES.audit, { keyPath: 'seq', autoIncrement: true });
+    audit.createIndex('at', 'at');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, mode);
+  return promisifyRequest(run(tx.objectStore(store)));
+};
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
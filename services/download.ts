@@ -0,0 +1,22 @@
+import { appendAudit } from "./auditLog";
+import { getActiveUser } from "./authService";
+
+/** Audits a file leaving the app for the signed-in user. Every download goes through here. */
+export const recordExport = (detail: string) => {
+  const user = getActiveUser();
+  if (user) appendAudit('export', user, detail);
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  recordExport(filename);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, type = 'application/json') =>
+  downloadBlob(filename, new Blob([text], { type }));
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedRecap, MovieInfo } from "../types";
+import { buildExport, buildCaptionCues, parseRecapJson, toJson, toPrintHtml, toSrt, toWebVtt } from "./exportService";
+import { redactGuarded } from "./spoilerGuard";
+
+const movie: MovieInfo = {
+  title: 'The Sixth Sense',
+  genre: 'Thriller',
+  director: 'M. Night Shyamalan',
+  keyPlotPoints: 'TWIST: Malcolm Crowe is dead the whole time',
+  tone: 'Eerie',
+  includeSpoilers: false,
+  length: 'short'
+};
+
+const recap: GeneratedRecap = {
+  tagline: 'I see dead people.',
+  summary: 'A boy sees ghosts. Malcolm Crowe has been dead. The boy learns to listen.',
+  characterAnalysis: 'Cole is frightened.',
+  keyTakeaways: ['Listen to children'],
+  verdict: 'In the end it all clicks. A patient thriller.'
+};
+
+const LEAKS = ['has been dead', 'In the end'];
+
+describe('guarded exports', () => {
+  it.each(['markdown', 'script', 'srt', 'vtt', 'json'] as const)('leaves flagged sentences out of %s', format => {
+    const { text } = buildExport(format, movie, recap);
+    for (const leak of LEAKS) expect(text).not.toContain(leak);
+    expect(text).toContain('The boy learns to listen.');
+  });
+
+  it('leaves flagged sentences out of the print page', () => {
+    const html = toPrintHtml(movie, recap);
+    for (const leak of LEAKS) expect(html).not.toContain(leak);
+    expect(html).toContain('A patient thriller.');
+  });
+
+  it('captions the same redacted text the narration panel speaks', () => {
+    const spoken = redactGuarded(movie, recap);
+    expect(buildExport('srt', movie, recap).text).toBe(toSrt(movie, spoken));
+    expect(buildExport('vtt', movie, recap).text).toBe(toWebVtt(movie, spoken));
+    expect(buildCaptionCues(movie, spoken).map(cue => cue.text).join(' ')).not.toContain('has been dead');
+  });
+
+  it('keeps everything when spoilers are allowed', () => {
+    const { text } = buildExport('markdown', { ...movie, includeSpoilers: true }, recap);
+    for (const leak of LEAKS) expect(text).toContain(leak);
+  });
+});
+
+describe('parseRecapJson', () => {
+  const file = (movie: unknown) => JSON.stringify({ format: 'cinerecap.recap', version: 1, movie, recap });
+
+  it('reads back what toJson wrote', () => {
+    const spoilers = { ...movie, includeSpoilers: true, language: 'es' };
+    expect(parseRecapJson(toJson(spoilers, recap))).toEqual({ movie: expect.objectContaining(spoilers), recap });
+  });
+
+  it('fills defaults for fields an older or hand-written file leaves out', () => {
+    expect(parseRecapJson(file({ title: 'Heat' })).movie).toEqual({
+      title: 'Heat',
+      genre: '',
+      director: '',
+      keyPlotPoints: '',
+      tone: 'Dramatic',
+      includeSpoilers: false,
+      spoilerMode: undefined,
+      length: 'medium',
+      templateName: undefined,
+      houseStyleId: undefined,
+      language: undefined
+    });
+  });
+
+  it('rejects fields of the wrong type', () => {
+    expect(() => parseRecapJson(file({ title: 'Heat', genre: 5, includeSpoilers: 'yes', length: 'epic' })))
+      .toThrow(/movie\.genre must be text; movie\.includeSpoilers must be true or false; movie\.length must be one of/);
+  });
+
+  it('rejects files without a title', () => {
+    expect(() => parseRecapJson(file({ title: '  ' }))).toThrow(/movie\.title is required/);
+    expect(() => parseRecapJson(file(null))).toThrow('This file is not a CineRecap JSON export.');
+  });
+});
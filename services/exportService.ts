@@ -0,0 +1,369 @@
+import { GeneratedRecap, MovieInfo, RecapLength, Scorecard, VersusRecap } from "../types";
+import { validateRecapText } from "./recapValidator";
+import { IMPORTED_RECAP_SCHEMA } from "./recapSchema";
+import { downloadBlob, recordExport } from "./download";
+import { countWords } from "./textStats";
+import { createZip, ZipEntry } from "./zip";
+import { SUB_SCORES, formatConfidence, formatScore } from "./scorecards";
+import { redactGuarded, splitSentences } from "./spoilerGuard";
+import { DEFAULT_LANGUAGE, OUTPUT_LANGUAGES, findLanguage, textDirection } from "./languages";
+import { LENGTH_TARGETS } from "./recapPrompt";
+
+export type ExportFormat = 'markdown' | 'script' | 'srt' | 'vtt' | 'json' | 'print';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'print', label: 'PDF / Print' },
+  { id: 'script', label: 'Narration Script' },
+  { id: 'srt', label: 'Captions (SRT)' },
+  { id: 'vtt', label: 'Captions (WebVTT)' },
+  { id: 'json', label: 'JSON' }
+];
+
+const JSON_FORMAT_TAG = 'cinerecap.recap';
+const JSON_FORMAT_VERSION = 1;
+
+// Average voice-over pace; used for script timing estimates.
+export const NARRATION_WPM = 150;
+
+export const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'recap';
+
+// Translations get a language suffix so they do not overwrite the original.
+export const exportBaseName = (movie: MovieInfo): string =>
+  movie.language && movie.language !== DEFAULT_LANGUAGE ? `${slugify(movie.title)}-${movie.language}` : slugify(movie.title);
+
+const subtitle = (movie: MovieInfo): string =>
+  [movie.director && `Directed by ${movie.director}`, movie.genre, movie.tone].filter(Boolean).join(' · ');
+
+// --- Markdown ---
+
+const scorecardRows = (card: Scorecard): [string, string][] => [
+  ['Overall', `${formatScore(card.overall)}/10`],
+  ...SUB_SCORES.map(({ key, label }): [string, string] => [label, `${formatScore(card[key])}/10`]),
+  ['Confidence', formatConfidence(card.confidence)],
+  ['Recommended for', card.recommendedAudience]
+];
+
+const scorecardTable = (card: Scorecard): string =>
+  ['| Rating | Value |', '|---|---|', ...scorecardRows(card).map(([label, value]) => `| ${label} | ${value} |`)].join('\n');
+
+export const toMarkdown = (movie: MovieInfo, recap: GeneratedRecap): string => [
+  `# ${movie.title}`,
+  subtitle(movie) && `_${subtitle(movie)}_`,
+  `> ${recap.tagline}`,
+  '## Summary',
+  recap.summary,
+  '## Character Spotlight',
+  recap.characterAnalysis,
+  '## Key Takeaways',
+  recap.keyTakeaways.map(item => `- ${item}`).join('\n'),
+  '## Verdict',
+  recap.verdict,
+  recap.scorecard && '## Scorecard',
+  recap.scorecard && scorecardTable(recap.scorecard)
+].filter(Boolean).join('\n\n') + '\n';
+
+/** The comparison first, then each film's recap one heading level down. */
+export const toVersusMarkdown = (
+  first: MovieInfo,
+  second: MovieInfo,
+  versus: VersusRecap,
+  recaps: [GeneratedRecap, GeneratedRecap]
+): string => {
+  const winner = versus.winner === 'tie' ? 'Tie' : (versus.winner === 'first' ? first : second).title;
+  const [firstRecap, secondRecap] = [redactGuarded(first, recaps[0]), redactGuarded(second, recaps[1])];
+  return [
+    `# ${first.title} vs. ${second.title}`,
+    `> ${versus.tagline}`,
+    '## Comparative Summary',
+    versus.comparativeSummary,
+    '## Key Differences',
+    versus.keyDifferences.map(item => `- ${item}`).join('\n'),
+    '## Head-to-Head Verdict',
+    `**Winner: ${winner}.** ${versus.headToHeadVerdict}`,
+    toMarkdown(first, firstRecap).replace(/^#/gm, '##'),
+    toMarkdown(second, secondRecap).replace(/^#/gm, '##')
+  ].join('\n\n').trimEnd() + '\n';
+};
+
+// --- Narration script ---
+
+export interface ScriptSegment {
+  label: string;
+  text: string;
+  start: number;    // seconds
+  duration: number; // seconds
+}
+
+const secondsFor = (text: string) => Math.max(1, Math.round((countWords(text) / NARRATION_WPM) * 60));
+
+/** Splits a recap into voice-over segments with running timing estimates. */
+export const buildScriptSegments = (movie: MovieInfo, recap: GeneratedRecap): ScriptSegment[] => {
+  const parts: { label: string; text: string }[] = [
+    { label: 'Intro', text: `${movie.title}. ${recap.tagline}` },
+    ...recap.summary
+      .split(/\n\s*\n/)
+      .map(p => p.trim())
+      .filter(Boolean)
+      .map((text, i) => ({ label: `Summary ${i + 1}`, text })),
+    { label: 'Characters', text: recap.characterAnalysis },
+    { label: 'Verdict', text: recap.verdict }
+  ];
+
+  let clock = 0;
+  return parts.map(part => {
+    const duration = secondsFor(part.text);
+    const segment = { ...part, start: clock, duration };
+    clock += duration;
+    return segment;
+  });
+};
+
+export const formatClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export const toNarrationScript = (movie: MovieInfo, recap: GeneratedRecap): string => {
+  const segments = buildScriptSegments(movie, recap);
+  const total = segments.reduce((sum, s) => sum + s.duration, 0);
+  return [
+    `${movie.title.toUpperCase()} — VOICE-OVER SCRIPT`,
+    `Estimated runtime ${formatClock(total)} at ${NARRATION_WPM} wpm`,
+    ...segments.map(s => `[${formatClock(s.start)}–${formatClock(s.start + s.duration)}] ${s.label.toUpperCase()}\n${s.text}`)
+  ].join('\n\n') + '\n';
+};
+
+// --- Captions ---
+
+export interface CaptionCue {
+  segment: number;  // index into buildScriptSegments
+  label: string;    // segment label, e.g. "Summary 2"
+  text: string;
+  start: number;    // seconds
+  end: number;      // seconds
+}
+
+/**
+ * One cue per sentence. Each segment's time is shared out by word count, so
+ * cues never cross a segment boundary. `rate` is the speech rate multiplier.
+ */
+export const buildCaptionCues = (movie: MovieInfo, recap: GeneratedRecap, rate = 1): CaptionCue[] =>
+  buildScriptSegments(movie, recap).flatMap((segment, index) => {
+    // Captions are single-line, and a blank line would end the cue early.
+    const sentences = splitSentences(segment.text).map(s => s.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const words = sentences.map(s => Math.max(1, countWords(s)));
+    const total = words.reduce((sum, n) => sum + n, 0);
+    let clock = segment.start / rate;
+    return sentences.map((text, i) => {
+      const start = clock;
+      clock += (segment.duration / rate) * (words[i] / total);
+      return { segment: index, label: segment.label, text, start, end: clock };
+    });
+  });
+
+// 00:01:02,345 for SRT, 00:01:02.345 for WebVTT.
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSrt = (movie: MovieInfo, recap: GeneratedRecap, rate = 1): string =>
+  buildCaptionCues(movie, recap, rate)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n';
+
+export const toWebVtt = (movie: MovieInfo, recap: GeneratedRecap, rate = 1): string => {
+  const cues = buildCaptionCues(movie, recap, rate);
+  return [
+    `WEBVTT - ${movie.title}`,
+    ...cues.map((cue, i) => {
+      const n = cues.slice(0, i + 1).filter(c => c.segment === cue.segment).length;
+      return `${slugify(cue.label)}-${n}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`;
+    })
+  ].join('\n\n') + '\n';
+};
+
+// --- JSON ---
+
+export const toJson = (movie: MovieInfo, recap: GeneratedRecap): string =>
+  JSON.stringify({ format: JSON_FORMAT_TAG, version: JSON_FORMAT_VERSION, movie, recap }, null, 2);
+
+// Hand-edited or older files may leave fields out; anything present must have the right type.
+const readMovie = (raw: Record<string, unknown>): MovieInfo => {
+  const problems: string[] = [];
+  const text = (field: keyof MovieInfo, fallback: string) => {
+    const value = raw[field];
+    if (value === undefined || value === null) return fallback;
+    if (typeof value === 'string') return value;
+    problems.push(`movie.${field} must be text`);
+    return fallback;
+  };
+  const optional = (field: keyof MovieInfo) => text(field, '') || undefined;
+
+  const movie: MovieInfo = {
+    title: text('title', '').trim(),
+    genre: text('genre', ''),
+    director: text('director', ''),
+    keyPlotPoints: text('keyPlotPoints', ''),
+    tone: text('tone', '') || 'Dramatic',
+    includeSpoilers: raw.includeSpoilers === true,
+    spoilerMode: optional('spoilerMode') as MovieInfo['spoilerMode'],
+    length: text('length', 'medium') as RecapLength,
+    templateName: optional('templateName'),
+    houseStyleId: optional('houseStyleId'),
+    language: optional('language')
+  };
+
+  const lengths = Object.keys(LENGTH_TARGETS);
+  if (!movie.title) problems.push('movie.title is required');
+  if (raw.includeSpoilers != null && typeof raw.includeSpoilers !== 'boolean') problems.push('movie.includeSpoilers must be true or false');
+  if (!lengths.includes(movie.length)) problems.push(`movie.length must be one of ${lengths.join(', ')}`);
+  if (movie.spoilerMode && movie.spoilerMode !== 'blur' && movie.spoilerMode !== 'strip') problems.push('movie.spoilerMode must be blur or strip');
+  if (movie.language && !OUTPUT_LANGUAGES.some(l => l.code === movie.language)) problems.push(`movie.language "${movie.language}" is not supported`);
+
+  if (problems.length) throw new Error(`This recap file is damaged: ${problems.join('; ')}.`);
+  return movie;
+};
+
+/** Reads a file written by toJson; the recap half is checked like live AI output. */
+export const parseRecapJson = (text: string): { movie: MovieInfo; recap: GeneratedRecap } => {
+  const data = JSON.parse(text);
+  if (data?.format !== JSON_FORMAT_TAG || !data.movie || typeof data.movie !== 'object' || Array.isArray(data.movie)) {
+    throw new Error('This file is not a CineRecap JSON export.');
+  }
+  const movie = readMovie(data.movie);
+  const { recap } = validateRecapText(JSON.stringify(data.recap), IMPORTED_RECAP_SCHEMA);
+  return { movie, recap };
+};
+
+// --- Batches ---
+
+export interface RecapBundleItem {
+  movie: MovieInfo;
+  recap: GeneratedRecap;
+}
+
+export const toBatchJson = (items: RecapBundleItem[]): string =>
+  JSON.stringify({
+    format: `${JSON_FORMAT_TAG}.batch`,
+    version: JSON_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    recaps: items.map(({ movie, recap }) => ({ movie, recap: redactGuarded(movie, recap) }))
+  }, null, 2);
+
+/** One Markdown and one JSON file per film, plus the combined JSON. */
+export const buildBatchZip = (items: RecapBundleItem[]): Blob => {
+  const used = new Map<string, number>();
+  const entries: ZipEntry[] = [{ name: 'recaps.json', text: toBatchJson(items) }];
+  for (const { movie, recap: original } of items) {
+    const recap = redactGuarded(movie, original);
+    const base = exportBaseName(movie);
+    const n = (used.get(base) ?? 0) + 1;
+    used.set(base, n);
+    const name = n > 1 ? `${base}-${n}` : base;
+    entries.push({ name: `markdown/${name}.md`, text: toMarkdown(movie, recap) });
+    entries.push({ name: `json/${name}.json`, text: toJson(movie, recap) });
+  }
+  return createZip(entries);
+};
+
+// --- Print / PDF ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const paragraphs = (text: string) =>
+  text.split(/\n\s*\n/).map(p => `<p>${escapeHtml(p.trim())}</p>`).join('');
+
+export const toPrintHtml = (movie: MovieInfo, original: GeneratedRecap): string => {
+  const recap = redactGuarded(movie, original);
+  return `<!DOCTYPE html>
+<html lang="${findLanguage(movie.language).code}" dir="${textDirection(movie.language)}"><head><meta charset="UTF-8"><title>${escapeHtml(movie.title)} — Recap</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font: 11pt/1.6 Georgia, serif; color: #111; max-width: 170mm; margin: 0 auto; }
+  h1 { font-size: 26pt; margin: 0 0 4pt; }
+  .meta { color: #555; font-style: italic; margin: 0 0 16pt; }
+  blockquote { border-inline-start: 3pt solid #f59e0b; margin: 0 0 18pt; padding-inline-start: 12pt; font-size: 14pt; font-style: italic; }
+  h2 { font: bold 9pt/1 sans-serif; letter-spacing: .15em; text-transform: uppercase; color: #b45309; margin: 20pt 0 6pt; break-after: avoid; }
+  p, li { orphans: 3; widows: 3; }
+  th { text-align: start; padding: 2pt 16pt 2pt 0; font-weight: normal; color: #555; }
+</style></head><body>
+<h1>${escapeHtml(movie.title)}</h1>
+<p class="meta">${escapeHtml(subtitle(movie))}</p>
+<blockquote>${escapeHtml(recap.tagline)}</blockquote>
+<h2>Summary</h2>${paragraphs(recap.summary)}
+<h2>Character Spotlight</h2>${paragraphs(recap.characterAnalysis)}
+<h2>Key Takeaways</h2><ul>${recap.keyTakeaways.map(t => `<li>${escapeHtml(t)}</li>`).join('')}</ul>
+<h2>Verdict</h2>${paragraphs(recap.verdict)}
+${recap.scorecard ? `<h2>Scorecard</h2><table>${scorecardRows(recap.scorecard).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>` : ''}
+</body></html>`;
+};
+
+/** Opens the print-ready page; the browser's dialog handles "Save as PDF". */
+export const printRecap = (movie: MovieInfo, recap: GeneratedRecap) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups to print or save as PDF.');
+  recordExport(`print: ${movie.title}`);
+  win.document.write(toPrintHtml(movie, recap));
+  win.document.close();
+  win.focus();
+  win.onload = () => win.print();
+};
+
+// --- Download / share ---
+
+interface ExportFile {
+  filename: string;
+  type: string;
+  text: string;
+}
+
+/** Guarded recaps leave without their flagged sentences, whatever the format. */
+export const buildExport = (format: Exclude<ExportFormat, 'print'>, movie: MovieInfo, original: GeneratedRecap): ExportFile => {
+  const recap = redactGuarded(movie, original);
+  const base = exportBaseName(movie);
+  switch (format) {
+    case 'markdown': return { filename: `${base}.md`, type: 'text/markdown', text: toMarkdown(movie, recap) };
+    case 'script': return { filename: `${base}-script.txt`, type: 'text/plain', text: toNarrationScript(movie, recap) };
+    case 'srt': return { filename: `${base}.srt`, type: 'application/x-subrip', text: toSrt(movie, recap) };
+    case 'vtt': return { filename: `${base}.vtt`, type: 'text/vtt', text: toWebVtt(movie, recap) };
+    case 'json': return { filename: `${base}.json`, type: 'application/json', text: toJson(movie, recap) };
+  }
+};
+
+export const exportRecap = (format: ExportFormat, movie: MovieInfo, recap: GeneratedRecap) => {
+  if (format === 'print') return printRecap(movie, recap);
+  const file = buildExport(format, movie, recap);
+  downloadBlob(file.filename, new Blob([file.text], { type: file.type }));
+};
+
+export const canShare = (): boolean => typeof navigator !== 'undefined' && 'share' in navigator;
+
+/**
+ * Shares through the Web Share API, attaching the file where the platform
+ * supports it. Returns false when sharing is unavailable so callers can fall
+ * back to a download.
+ */
+export const shareRecap = async (
+  format: Exclude<ExportFormat, 'print'>,
+  movie: MovieInfo,
+  recap: GeneratedRecap
+): Promise<boolean> => {
+  if (!canShare()) return false;
+  const file = buildExport(format, movie, recap);
+  const attachment = new File([file.text], file.filename, { type: file.type });
+  recordExport(`share: ${file.filename}`);
+  try {
+    if (navigator.canShare?.({ files: [attachment] })) {
+      await navigator.share({ title: movie.title, files: [attachment] });
+    } else {
+      await navigator.share({ title: movie.title, text: file.text });
+    }
+  } catch (err: any) {
+    // Dismissing the share sheet is not an error worth surfacing.
+    if (err?.name !== 'AbortError') throw err;
+  }
+  return true;
+};
@@ -1,48 +1,56 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { GeneratedRecap, GenerateOptions, RecapProvider, RecapRequest } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { abortError, throwIfAborted } from "./abort";
+import { schemaFor } from "./recapSchema";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { MovieInfo, GeneratedRecap } from "../types";
+export const GEMINI_MODEL = 'gemini-3-flash-preview';
 
-export const generateMovieRecap = async (info: MovieInfo): Promise<GeneratedRecap> => {
+const generateMovieRecap = async (
+  request: RecapRequest,
+  { model, signal, onPartial, onUsage }: GenerateOptions
+): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
-  const prompt = `
-    Write a professional movie recap for the following film:
-    Title: ${info.title}
-    Genre: ${info.genre}
-    Director: ${info.director}
-    Key Plot Points: ${info.keyPlotPoints}
-    Tone: ${info.tone}
-    Include Spoilers: ${info.includeSpoilers ? 'Yes' : 'No'}
-    Recap Length: ${info.length}
+  const contents = request.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
 
-    The recap should be engaging and high-quality.
-  `;
+  throwIfAborted(signal);
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
+  const stream = await ai.models.generateContentStream({
+    model,
+    contents,
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          tagline: { type: Type.STRING, description: 'A catchy one-liner for the movie.' },
-          summary: { type: Type.STRING, description: 'The main recap text.' },
-          characterAnalysis: { type: Type.STRING, description: 'Brief analysis of the main characters.' },
-          keyTakeaways: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING },
-            description: 'List of important themes or plot devices.' 
-          },
-          verdict: { type: Type.STRING, description: 'A final recommendation or rating sentence.' }
-        },
-        required: ["tagline", "summary", "characterAnalysis", "keyTakeaways", "verdict"]
-      }
+      responseSchema: schemaFor(request)
     }
   });
 
-  const text = response.text;
-  if (!text) throw new Error("No response from AI");
-  
-  return JSON.parse(text) as GeneratedRecap;
+  let text = '';
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  for await (const chunk of stream) {
+    if (signal?.aborted) throw abortError();
+    // Counts are cumulative; the final chunk carries the totals.
+    if (chunk.usageMetadata) usage = chunk.usageMetadata;
+    if (!chunk.text) continue;
+    text += chunk.text;
+    onPartial?.(parsePartialJson<GeneratedRecap>(text));
+  }
+  throwIfAborted(signal);
+
+  if (usage) {
+    const promptTokens = usage.promptTokenCount ?? 0;
+    // Thinking tokens are billed as output, so derive output from the total.
+    const totalTokens = usage.totalTokenCount ?? promptTokens + (usage.candidatesTokenCount ?? 0);
+    onUsage?.({ promptTokens, outputTokens: totalTokens - promptTokens, totalTokens });
+  }
+  return text;
+};
+
+export const geminiProvider: RecapProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [GEMINI_MODEL, 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  customModels: false,
+  generate: generateMovieRecap
 };
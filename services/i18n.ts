@@ -0,0 +1,546 @@
+// UI string catalog for the app shell. English is the source of truth: every
+// other locale must define the same keys, which the Messages type enforces.
+
+export type Locale = 'en' | 'es' | 'ar';
+
+export const LOCALES: { code: Locale; label: string; dir: 'ltr' | 'rtl' }[] = [
+  { code: 'en', label: 'English', dir: 'ltr' },
+  { code: 'es', label: 'Español', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', dir: 'rtl' }
+];
+
+const LOCALE_KEY = 'cinerecap_locale';
+
+const en = {
+  'login.setupTitle': 'Create the first admin account',
+  'login.subtitle': 'Secure Movie Analysis Studio',
+  'login.copyId': 'Click here to Copy ID',
+  'login.idCopied': 'ID copied! Send it to an admin so they can match your enrollment request.',
+  'login.failed': 'Sign-in failed. Please try again.',
+  'login.accountsUnavailable': 'Could not read the accounts stored on this device.',
+  'login.username': 'Username',
+  'login.usernamePlaceholder': 'Enter username',
+  'login.password': 'Password',
+  'login.verifying': 'Verifying...',
+  'login.createAdmin': 'Create Admin Account',
+  'login.submit': 'Verify Identity',
+  'login.deviceToken': 'Device Hardware Token',
+  'nav.users': 'Users',
+  'nav.usage': 'Usage',
+  'nav.styles': 'Styles',
+  'nav.batch': 'Batch',
+  'nav.compare': 'Compare',
+  'nav.scores': 'Scores',
+  'nav.library': 'Library',
+  'nav.signOut': 'Sign Out',
+  'nav.interfaceLanguage': 'Interface language',
+  'form.heading': 'Input Details',
+  'form.readOnly': 'Your account is read-only. Open the Library to browse saved recaps.',
+  'form.title': 'Movie Title',
+  'form.titlePlaceholder': 'e.g. Inception',
+  'form.genre': 'Genre',
+  'form.director': 'Director',
+  'form.plotPlaceholder': 'Plot points, twists, or key scenes...\nPrefix reveals with TWIST: or ENDING: so spoiler-free recaps can hide them.',
+  'form.noHouseStyle': 'No house style',
+  'form.defaultTemplate': 'Default template',
+  'form.spoilers': 'Spoilers',
+  'form.leakedSpoilers': 'Leaked spoilers',
+  'form.blur': 'Blur',
+  'form.blurHint': 'Blur flagged sentences; click to reveal',
+  'form.strip': 'Strip',
+  'form.stripHint': 'Remove flagged sentences from the recap',
+  'form.outputLanguage': 'Recap language',
+  'form.length.short': 'Short',
+  'form.length.medium': 'Medium',
+  'form.length.detailed': 'Detailed',
+  'form.words': '{range} words',
+  'form.generating': 'Generating Professional Recap...',
+  'form.submit': 'Create Recap',
+  'form.queue': 'Queue for When Online',
+  'result.empty': 'No active recap.',
+  'result.secureId': 'Secure ID: {id}',
+  'result.failed': 'Recap Failed',
+  'result.failedFallback': 'Failed to generate recap.',
+  'result.dismiss': 'Dismiss',
+  'result.analyzing': 'Analyzing the Story',
+  'result.crafting': '{provider} is crafting a high-quality summary...',
+  'result.cancel': 'Cancel',
+  'result.writing': 'Writing...',
+  'result.characters': 'Character Spotlight',
+  'result.verdict': 'Critical Verdict',
+  'result.finish': 'Finish Session & Start New',
+  'net.online': 'Online',
+  'net.offline': 'Offline',
+  'net.offlineHint': 'You are offline. Saved recaps stay readable, and new recaps wait in the outbox until the connection returns.',
+  'update.available': 'A new version of CineRecap is ready.',
+  'update.reload': 'Reload to Update',
+  'outbox.heading': 'Outbox',
+  'outbox.waiting': 'Waiting for connection',
+  'outbox.queued': 'Queued',
+  'outbox.generating': 'Generating',
+  'outbox.retrying': 'Retrying soon',
+  'outbox.saving': 'Saving to library',
+  'outbox.failed': 'Failed',
+  'outbox.retry': 'Retry',
+  'outbox.remove': 'Remove',
+  'outbox.ready': 'Recap ready: {title}',
+  'outbox.open': 'Open',
+  'outbox.queueFailed': 'Could not save this recap request for later.',
+  'view.ready': 'Analysis Ready',
+  'view.tagline': 'Tagline',
+  'view.summary': 'Summary',
+  'view.takeaways': 'Key Takeaways',
+  'view.scorecard': 'Scorecard',
+  'view.words': '{count} words',
+  'view.readSeconds': '{count} sec read',
+  'view.readMinutes': '{count} min read',
+  'view.under': 'under',
+  'view.over': 'over',
+  'view.onTarget': 'on target',
+  'view.target': 'Target {min}–{max} words',
+  'view.spoilersOne': '{count} possible spoiler hidden',
+  'view.spoilersOther': '{count} possible spoilers hidden',
+  'view.spoilersHint': 'Blurred sentences may reveal twists or the ending. Click one to read it.',
+  'view.spoilerSentence': 'Possible spoiler — {reason}. Click to reveal.',
+  'view.copy': 'Copy',
+  'view.copied': 'Copied',
+  'view.copyFailed': 'Copy failed',
+  'view.undo': 'Undo',
+  'view.redo': 'Redo',
+  'view.regenerate': 'Regenerate',
+  'view.rewriting': 'Rewriting...',
+  'editor.languages': 'Languages',
+  'editor.sourceOnly': '{language} only',
+  'editor.removeTranslation': 'Remove translation',
+  'editor.translate': 'Translate',
+  'editor.retranslate': 'Retranslate',
+  'editor.houseStyle': 'House style: {name}',
+  'editor.refine': 'Refine',
+  'editor.refinePlaceholder': 'e.g. "Make the verdict harsher" or "Mention the score"',
+  'editor.apply': 'Apply',
+  'editor.updated': 'Updated {sections}',
+  'editor.noChanges': 'No changes',
+  'editor.failed': 'Failed',
+  'editor.editFailed': 'The edit failed.',
+  'editor.translateFailed': 'Translation failed.',
+  'export.heading': 'Export',
+  'export.markdown': 'Markdown',
+  'export.print': 'PDF / Print',
+  'export.script': 'Narration Script',
+  'export.srt': 'Captions (SRT)',
+  'export.vtt': 'Captions (WebVTT)',
+  'export.json': 'JSON',
+  'export.download': 'Download',
+  'export.printSave': 'Print / Save PDF',
+  'export.share': 'Share',
+  'export.shareDownload': 'Share (download)',
+  'export.failed': 'Export failed.',
+  'narration.heading': 'Narration',
+  'narration.cues': '{count} cues · {runtime}',
+  'narration.unsupported': 'This browser cannot read text aloud. Captions can still be downloaded.',
+  'narration.voice': 'Voice',
+  'narration.defaultVoice': 'Browser default',
+  'narration.rate': 'Rate · {value}×',
+  'narration.pitch': 'Pitch · {value}',
+  'narration.play': 'Play',
+  'narration.pause': 'Pause',
+  'narration.resume': 'Resume',
+  'narration.stop': 'Stop',
+  'narration.srt': 'Captions .srt',
+  'narration.vtt': 'Captions .vtt',
+  'narration.readFrom': 'Read aloud from here',
+  'compare.heading': 'Compare',
+  'compare.back': 'Back to Studio',
+  'compare.variants': 'Variants',
+  'compare.versus': 'Versus',
+  'compare.variantsOf': 'Variants of {title}',
+  'compare.studioFilm': 'the studio film',
+  'compare.fillStudio': 'Fill in the film in the Studio first; every variant uses its details.',
+  'compare.remove': 'Remove',
+  'compare.addVariant': 'Add Variant',
+  'compare.generate': 'Generate {count} Variants',
+  'compare.pickHint': 'Click a section to use it in the merged recap, or pick a whole variant.',
+  'compare.openMerged': 'Open Merged Recap',
+  'compare.cancelled': 'Cancelled.',
+  'compare.pickAll': 'Pick All',
+  'compare.firstFilm': 'First Film',
+  'compare.secondFilm': 'Second Film',
+  'compare.fromStudio': 'Tone, length, spoilers and language come from the studio form ({tone}, {length}).',
+  'compare.submit': 'Compare Films',
+  'compare.writingBoth': 'Writing both recaps and the comparison...',
+  'compare.headToHead': 'Head to Head',
+  'compare.winner': 'Winner: {title}',
+  'compare.tie': 'Tie',
+  'compare.exportMarkdown': 'Export Markdown',
+  'compare.vs': 'vs.',
+  'compare.summary': 'Comparative Summary',
+  'compare.differences': 'Key Differences',
+  'compare.verdict': 'Head-to-Head Verdict',
+  'compare.openInStudio': 'Open in Studio',
+  'compare.failed': 'Comparison failed.'
+};
+
+export type MessageKey = keyof typeof en;
+type Messages = Record<MessageKey, string>;
+
+const es: Messages = {
+  'login.setupTitle': 'Crea la primera cuenta de administrador',
+  'login.subtitle': 'Estudio seguro de análisis de películas',
+  'login.copyId': 'Haz clic aquí para copiar el ID',
+  'login.idCopied': '¡ID copiado! Envíalo a un administrador para que identifique tu solicitud de registro.',
+  'login.failed': 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+  'login.accountsUnavailable': 'No se pudieron leer las cuentas guardadas en este dispositivo.',
+  'login.username': 'Usuario',
+  'login.usernamePlaceholder': 'Introduce tu usuario',
+  'login.password': 'Contraseña',
+  'login.verifying': 'Verificando...',
+  'login.createAdmin': 'Crear cuenta de administrador',
+  'login.submit': 'Verificar identidad',
+  'login.deviceToken': 'Token de hardware del dispositivo',
+  'nav.users': 'Usuarios',
+  'nav.usage': 'Consumo',
+  'nav.styles': 'Estilos',
+  'nav.batch': 'Lotes',
+  'nav.compare': 'Comparar',
+  'nav.scores': 'Puntuaciones',
+  'nav.library': 'Biblioteca',
+  'nav.signOut': 'Cerrar sesión',
+  'nav.interfaceLanguage': 'Idioma de la interfaz',
+  'form.heading': 'Datos de entrada',
+  'form.readOnly': 'Tu cuenta es de solo lectura. Abre la Biblioteca para ver los resúmenes guardados.',
+  'form.title': 'Título de la película',
+  'form.titlePlaceholder': 'p. ej. Origen',
+  'form.genre': 'Género',
+  'form.director': 'Director',
+  'form.plotPlaceholder': 'Puntos de la trama, giros o escenas clave...\nEmpieza las revelaciones con TWIST: o ENDING: para ocultarlas en los resúmenes sin spoilers.',
+  'form.noHouseStyle': 'Sin estilo de la casa',
+  'form.defaultTemplate': 'Plantilla predeterminada',
+  'form.spoilers': 'Spoilers',
+  'form.leakedSpoilers': 'Spoilers filtrados',
+  'form.blur': 'Difuminar',
+  'form.blurHint': 'Difumina las frases marcadas; haz clic para verlas',
+  'form.strip': 'Eliminar',
+  'form.stripHint': 'Quita las frases marcadas del resumen',
+  'form.outputLanguage': 'Idioma del resumen',
+  'form.length.short': 'Corto',
+  'form.length.medium': 'Medio',
+  'form.length.detailed': 'Detallado',
+  'form.words': '{range} palabras',
+  'form.generating': 'Generando resumen profesional...',
+  'form.submit': 'Crear resumen',
+  'form.queue': 'Poner en cola sin conexión',
+  'result.empty': 'No hay ningún resumen activo.',
+  'result.secureId': 'ID seguro: {id}',
+  'result.failed': 'El resumen falló',
+  'result.failedFallback': 'No se pudo generar el resumen.',
+  'result.dismiss': 'Cerrar',
+  'result.analyzing': 'Analizando la historia',
+  'result.crafting': '{provider} está redactando un resumen de calidad...',
+  'result.cancel': 'Cancelar',
+  'result.writing': 'Escribiendo...',
+  'result.characters': 'Personajes destacados',
+  'result.verdict': 'Veredicto crítico',
+  'result.finish': 'Terminar sesión y empezar de nuevo',
+  'net.online': 'En línea',
+  'net.offline': 'Sin conexión',
+  'net.offlineHint': 'Estás sin conexión. Los resúmenes guardados siguen disponibles y los nuevos esperan en la bandeja de salida hasta que vuelva la conexión.',
+  'update.available': 'Hay una nueva versión de CineRecap lista.',
+  'update.reload': 'Recargar para actualizar',
+  'outbox.heading': 'Bandeja de salida',
+  'outbox.waiting': 'Esperando conexión',
+  'outbox.queued': 'En cola',
+  'outbox.generating': 'Generando',
+  'outbox.retrying': 'Reintentando en breve',
+  'outbox.saving': 'Guardando en la biblioteca',
+  'outbox.failed': 'Error',
+  'outbox.retry': 'Reintentar',
+  'outbox.remove': 'Quitar',
+  'outbox.ready': 'Resumen listo: {title}',
+  'outbox.open': 'Abrir',
+  'outbox.queueFailed': 'No se pudo guardar esta solicitud de resumen para más tarde.',
+  'view.ready': 'Análisis listo',
+  'view.tagline': 'Eslogan',
+  'view.summary': 'Resumen',
+  'view.takeaways': 'Conclusiones clave',
+  'view.scorecard': 'Puntuación',
+  'view.words': '{count} palabras',
+  'view.readSeconds': '{count} s de lectura',
+  'view.readMinutes': '{count} min de lectura',
+  'view.under': 'corto',
+  'view.over': 'largo',
+  'view.onTarget': 'en rango',
+  'view.target': 'Objetivo: {min}–{max} palabras',
+  'view.spoilersOne': '{count} posible spoiler oculto',
+  'view.spoilersOther': '{count} posibles spoilers ocultos',
+  'view.spoilersHint': 'Las frases difuminadas pueden revelar giros o el final. Haz clic en una para leerla.',
+  'view.spoilerSentence': 'Posible spoiler: {reason}. Haz clic para mostrarlo.',
+  'view.copy': 'Copiar',
+  'view.copied': 'Copiado',
+  'view.copyFailed': 'No se pudo copiar',
+  'view.undo': 'Deshacer',
+  'view.redo': 'Rehacer',
+  'view.regenerate': 'Regenerar',
+  'view.rewriting': 'Reescribiendo...',
+  'editor.languages': 'Idiomas',
+  'editor.sourceOnly': 'Solo {language}',
+  'editor.removeTranslation': 'Quitar traducción',
+  'editor.translate': 'Traducir',
+  'editor.retranslate': 'Volver a traducir',
+  'editor.houseStyle': 'Estilo de la casa: {name}',
+  'editor.refine': 'Refinar',
+  'editor.refinePlaceholder': 'p. ej. "Haz el veredicto más duro" o "Menciona la banda sonora"',
+  'editor.apply': 'Aplicar',
+  'editor.updated': 'Actualizado: {sections}',
+  'editor.noChanges': 'Sin cambios',
+  'editor.failed': 'Error',
+  'editor.editFailed': 'La edición falló.',
+  'editor.translateFailed': 'La traducción falló.',
+  'export.heading': 'Exportar',
+  'export.markdown': 'Markdown',
+  'export.print': 'PDF / Imprimir',
+  'export.script': 'Guion de narración',
+  'export.srt': 'Subtítulos (SRT)',
+  'export.vtt': 'Subtítulos (WebVTT)',
+  'export.json': 'JSON',
+  'export.download': 'Descargar',
+  'export.printSave': 'Imprimir / Guardar PDF',
+  'export.share': 'Compartir',
+  'export.shareDownload': 'Compartir (descarga)',
+  'export.failed': 'La exportación falló.',
+  'narration.heading': 'Narración',
+  'narration.cues': '{count} frases · {runtime}',
+  'narration.unsupported': 'Este navegador no puede leer en voz alta. Aun así puedes descargar los subtítulos.',
+  'narration.voice': 'Voz',
+  'narration.defaultVoice': 'Predeterminada del navegador',
+  'narration.rate': 'Velocidad · {value}×',
+  'narration.pitch': 'Tono · {value}',
+  'narration.play': 'Reproducir',
+  'narration.pause': 'Pausa',
+  'narration.resume': 'Continuar',
+  'narration.stop': 'Detener',
+  'narration.srt': 'Subtítulos .srt',
+  'narration.vtt': 'Subtítulos .vtt',
+  'narration.readFrom': 'Leer en voz alta desde aquí',
+  'compare.heading': 'Comparar',
+  'compare.back': 'Volver al estudio',
+  'compare.variants': 'Variantes',
+  'compare.versus': 'Cara a cara',
+  'compare.variantsOf': 'Variantes de {title}',
+  'compare.studioFilm': 'la película del estudio',
+  'compare.fillStudio': 'Completa primero la película en el estudio; todas las variantes usan sus datos.',
+  'compare.remove': 'Quitar',
+  'compare.addVariant': 'Añadir variante',
+  'compare.generate': 'Generar {count} variantes',
+  'compare.pickHint': 'Haz clic en una sección para usarla en el resumen combinado, o elige una variante completa.',
+  'compare.openMerged': 'Abrir resumen combinado',
+  'compare.cancelled': 'Cancelado.',
+  'compare.pickAll': 'Elegir todo',
+  'compare.firstFilm': 'Primera película',
+  'compare.secondFilm': 'Segunda película',
+  'compare.fromStudio': 'El tono, la extensión, los spoilers y el idioma se toman del formulario del estudio ({tone}, {length}).',
+  'compare.submit': 'Comparar películas',
+  'compare.writingBoth': 'Escribiendo ambos resúmenes y la comparación...',
+  'compare.headToHead': 'Cara a cara',
+  'compare.winner': 'Ganadora: {title}',
+  'compare.tie': 'Empate',
+  'compare.exportMarkdown': 'Exportar Markdown',
+  'compare.vs': 'vs.',
+  'compare.summary': 'Resumen comparativo',
+  'compare.differences': 'Diferencias clave',
+  'compare.verdict': 'Veredicto cara a cara',
+  'compare.openInStudio': 'Abrir en el estudio',
+  'compare.failed': 'La comparación falló.'
+};
+
+const ar: Messages = {
+  'login.setupTitle': 'أنشئ أول حساب مسؤول',
+  'login.subtitle': 'استوديو آمن لتحليل الأفلام',
+  'login.copyId': 'انقر هنا لنسخ المعرّف',
+  'login.idCopied': 'تم نسخ المعرّف! أرسله إلى أحد المسؤولين ليطابقه مع طلب التسجيل.',
+  'login.failed': 'تعذّر تسجيل الدخول. حاول مرة أخرى.',
+  'login.accountsUnavailable': 'تعذّرت قراءة الحسابات المحفوظة على هذا الجهاز.',
+  'login.username': 'اسم المستخدم',
+  'login.usernamePlaceholder': 'أدخل اسم المستخدم',
+  'login.password': 'كلمة المرور',
+  'login.verifying': 'جارٍ التحقق...',
+  'login.createAdmin': 'إنشاء حساب المسؤول',
+  'login.submit': 'تحقق من الهوية',
+  'login.deviceToken': 'رمز عتاد الجهاز',
+  'nav.users': 'المستخدمون',
+  'nav.usage': 'الاستخدام',
+  'nav.styles': 'الأنماط',
+  'nav.batch': 'دفعات',
+  'nav.compare': 'مقارنة',
+  'nav.scores': 'التقييمات',
+  'nav.library': 'المكتبة',
+  'nav.signOut': 'تسجيل الخروج',
+  'nav.interfaceLanguage': 'لغة الواجهة',
+  'form.heading': 'تفاصيل الإدخال',
+  'form.readOnly': 'حسابك للقراءة فقط. افتح المكتبة لتصفح الملخصات المحفوظة.',
+  'form.title': 'عنوان الفيلم',
+  'form.titlePlaceholder': 'مثال: Inception',
+  'form.genre': 'النوع',
+  'form.director': 'المخرج',
+  'form.plotPlaceholder': 'أحداث الحبكة أو المفاجآت أو المشاهد الرئيسية...\nابدأ المفاجآت بـ TWIST: أو ENDING: لإخفائها في الملخصات الخالية من الحرق.',
+  'form.noHouseStyle': 'بدون نمط تحريري',
+  'form.defaultTemplate': 'القالب الافتراضي',
+  'form.spoilers': 'حرق الأحداث',
+  'form.leakedSpoilers': 'الحرق المتسرّب',
+  'form.blur': 'تمويه',
+  'form.blurHint': 'موّه الجمل المعلَّمة؛ انقر لإظهارها',
+  'form.strip': 'حذف',
+  'form.stripHint': 'احذف الجمل المعلَّمة من الملخص',
+  'form.outputLanguage': 'لغة الملخص',
+  'form.length.short': 'قصير',
+  'form.length.medium': 'متوسط',
+  'form.length.detailed': 'مفصّل',
+  'form.words': '{range} كلمة',
+  'form.generating': 'جارٍ إنشاء ملخص احترافي...',
+  'form.submit': 'إنشاء الملخص',
+  'form.queue': 'أضف إلى الانتظار حتى عودة الاتصال',
+  'result.empty': 'لا يوجد ملخص نشط.',
+  'result.secureId': 'المعرّف الآمن: {id}',
+  'result.failed': 'فشل إنشاء الملخص',
+  'result.failedFallback': 'تعذّر إنشاء الملخص.',
+  'result.dismiss': 'إغلاق',
+  'result.analyzing': 'جارٍ تحليل القصة',
+  'result.crafting': '{provider} يكتب ملخصًا عالي الجودة...',
+  'result.cancel': 'إلغاء',
+  'result.writing': 'جارٍ الكتابة...',
+  'result.characters': 'تسليط الضوء على الشخصيات',
+  'result.verdict': 'الحكم النقدي',
+  'result.finish': 'إنهاء الجلسة والبدء من جديد',
+  'net.online': 'متصل',
+  'net.offline': 'غير متصل',
+  'net.offlineHint': 'أنت غير متصل. تظل الملخصات المحفوظة متاحة للقراءة، وتنتظر الملخصات الجديدة في صندوق الصادر حتى يعود الاتصال.',
+  'update.available': 'إصدار جديد من CineRecap جاهز.',
+  'update.reload': 'أعد التحميل للتحديث',
+  'outbox.heading': 'صندوق الصادر',
+  'outbox.waiting': 'بانتظار الاتصال',
+  'outbox.queued': 'في الانتظار',
+  'outbox.generating': 'جارٍ الإنشاء',
+  'outbox.retrying': 'ستُعاد المحاولة قريبًا',
+  'outbox.saving': 'جارٍ الحفظ في المكتبة',
+  'outbox.failed': 'فشل',
+  'outbox.retry': 'إعادة المحاولة',
+  'outbox.remove': 'إزالة',
+  'outbox.ready': 'الملخص جاهز: {title}',
+  'outbox.open': 'فتح',
+  'outbox.queueFailed': 'تعذّر حفظ طلب الملخص هذا لوقت لاحق.',
+  'view.ready': 'التحليل جاهز',
+  'view.tagline': 'الشعار',
+  'view.summary': 'الملخص',
+  'view.takeaways': 'أبرز الخلاصات',
+  'view.scorecard': 'بطاقة التقييم',
+  'view.words': 'عدد الكلمات: {count}',
+  'view.readSeconds': 'قراءة {count} ث',
+  'view.readMinutes': 'قراءة {count} د',
+  'view.under': 'أقصر',
+  'view.over': 'أطول',
+  'view.onTarget': 'ضمن النطاق',
+  'view.target': 'المستهدف: {min}–{max} كلمة',
+  'view.spoilersOne': 'جمل قد تكشف الأحداث مخفية: {count}',
+  'view.spoilersOther': 'جمل قد تكشف الأحداث مخفية: {count}',
+  'view.spoilersHint': 'قد تكشف الجمل المموّهة عن مفاجآت أو عن النهاية. انقر على أي منها لقراءتها.',
+  'view.spoilerSentence': 'قد تكشف الأحداث — {reason}. انقر للإظهار.',
+  'view.copy': 'نسخ',
+  'view.copied': 'تم النسخ',
+  'view.copyFailed': 'تعذّر النسخ',
+  'view.undo': 'تراجع',
+  'view.redo': 'إعادة',
+  'view.regenerate': 'إعادة الإنشاء',
+  'view.rewriting': 'جارٍ إعادة الكتابة...',
+  'editor.languages': 'اللغات',
+  'editor.sourceOnly': '{language} فقط',
+  'editor.removeTranslation': 'إزالة الترجمة',
+  'editor.translate': 'ترجمة',
+  'editor.retranslate': 'إعادة الترجمة',
+  'editor.houseStyle': 'الأسلوب المعتمد: {name}',
+  'editor.refine': 'تحسين',
+  'editor.refinePlaceholder': 'مثلًا: "اجعل الحكم أقسى" أو "اذكر الموسيقى التصويرية"',
+  'editor.apply': 'تطبيق',
+  'editor.updated': 'تم تحديث: {sections}',
+  'editor.noChanges': 'لا تغييرات',
+  'editor.failed': 'فشل',
+  'editor.editFailed': 'فشل التعديل.',
+  'editor.translateFailed': 'فشلت الترجمة.',
+  'export.heading': 'تصدير',
+  'export.markdown': 'Markdown',
+  'export.print': 'PDF / طباعة',
+  'export.script': 'نص التعليق الصوتي',
+  'export.srt': 'ترجمة مرئية (SRT)',
+  'export.vtt': 'ترجمة مرئية (WebVTT)',
+  'export.json': 'JSON',
+  'export.download': 'تنزيل',
+  'export.printSave': 'طباعة / حفظ PDF',
+  'export.share': 'مشاركة',
+  'export.shareDownload': 'مشاركة (تنزيل)',
+  'export.failed': 'فشل التصدير.',
+  'narration.heading': 'السرد الصوتي',
+  'narration.cues': 'المقاطع: {count} · {runtime}',
+  'narration.unsupported': 'لا يستطيع هذا المتصفح قراءة النص بصوت عالٍ. لا يزال بإمكانك تنزيل الترجمة المرئية.',
+  'narration.voice': 'الصوت',
+  'narration.defaultVoice': 'الافتراضي في المتصفح',
+  'narration.rate': 'السرعة · {value}×',
+  'narration.pitch': 'طبقة الصوت · {value}',
+  'narration.play': 'تشغيل',
+  'narration.pause': 'إيقاف مؤقت',
+  'narration.resume': 'استئناف',
+  'narration.stop': 'إيقاف',
+  'narration.srt': 'ترجمة مرئية .srt',
+  'narration.vtt': 'ترجمة مرئية .vtt',
+  'narration.readFrom': 'القراءة بصوت عالٍ من هنا',
+  'compare.heading': 'مقارنة',
+  'compare.back': 'العودة إلى الاستوديو',
+  'compare.variants': 'النسخ',
+  'compare.versus': 'مواجهة',
+  'compare.variantsOf': 'نسخ من {title}',
+  'compare.studioFilm': 'فيلم الاستوديو',
+  'compare.fillStudio': 'املأ بيانات الفيلم في الاستوديو أولًا؛ فكل نسخة تستخدم تفاصيله.',
+  'compare.remove': 'إزالة',
+  'compare.addVariant': 'إضافة نسخة',
+  'compare.generate': 'إنشاء {count} نسخ',
+  'compare.pickHint': 'انقر على قسم لاستخدامه في الملخص المدمج، أو اختر نسخة كاملة.',
+  'compare.openMerged': 'فتح الملخص المدمج',
+  'compare.cancelled': 'أُلغي.',
+  'compare.pickAll': 'اختيار الكل',
+  'compare.firstFilm': 'الفيلم الأول',
+  'compare.secondFilm': 'الفيلم الثاني',
+  'compare.fromStudio': 'تُؤخذ النبرة والطول والحرق واللغة من نموذج الاستوديو ({tone}، {length}).',
+  'compare.submit': 'قارن الفيلمين',
+  'compare.writingBoth': 'جارٍ كتابة الملخصين والمقارنة...',
+  'compare.headToHead': 'وجهًا لوجه',
+  'compare.winner': 'الفائز: {title}',
+  'compare.tie': 'تعادل',
+  'compare.exportMarkdown': 'تصدير Markdown',
+  'compare.vs': 'ضد',
+  'compare.summary': 'ملخص مقارن',
+  'compare.differences': 'أبرز الفروق',
+  'compare.verdict': 'الحكم في المواجهة',
+  'compare.openInStudio': 'فتح في الاستوديو',
+  'compare.failed': 'فشلت المقارنة.'
+};
+
+const CATALOG: Record<Locale, Messages> = { en, es, ar };
+
+export type Translator = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export const createTranslator = (locale: Locale): Translator => (key, vars = {}) =>
+  (CATALOG[locale]?.[key] ?? en[key]).replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+
+export const localeDirection = (locale: Locale): 'ltr' | 'rtl' =>
+  LOCALES.find(l => l.code === locale)?.dir ?? 'ltr';
+
+// Falls back to the browser language on first visit.
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (saved && saved in CATALOG) return saved as Locale;
+  const browser = navigator.language.slice(0, 2);
+  return browser in CATALOG ? browser as Locale : 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
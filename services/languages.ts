@@ -0,0 +1,28 @@
+export interface OutputLanguage {
+  code: string;
+  label: string;      // English name, used in prompts
+  nativeName: string; // shown in pickers
+  rtl?: boolean;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: 'en', label: 'English', nativeName: 'English' },
+  { code: 'es', label: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', label: 'French', nativeName: 'Français' },
+  { code: 'de', label: 'German', nativeName: 'Deutsch' },
+  { code: 'it', label: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', label: 'Portuguese', nativeName: 'Português' },
+  { code: 'ja', label: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', label: 'Korean', nativeName: '한국어' },
+  { code: 'zh', label: 'Chinese (Simplified)', nativeName: '简体中文' },
+  { code: 'hi', label: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'ar', label: 'Arabic', nativeName: 'العربية', rtl: true },
+  { code: 'he', label: 'Hebrew', nativeName: 'עברית', rtl: true }
+];
+
+export const findLanguage = (code?: string): OutputLanguage =>
+  OUTPUT_LANGUAGES.find(l => l.code === (code || DEFAULT_LANGUAGE)) ?? OUTPUT_LANGUAGES[0];
+
+export const textDirection = (code?: string): 'ltr' | 'rtl' => (findLanguage(code).rtl ? 'rtl' : 'ltr');
@@ -0,0 +1,85 @@
+import { GeneratedRecap, MovieInfo, SavedRecap } from "../types";
+import { STORES, createId, withStore } from "./db";
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'score';
+
+export interface LibraryQuery {
+  search: string;
+  tone: string;        // '' means any tone
+  spoilers: 'any' | 'yes' | 'no';
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = {
+  search: '',
+  tone: '',
+  spoilers: 'any',
+  sort: 'newest'
+};
+
+export const listRecaps = (owner: string): Promise<SavedRecap[]> =>
+  withStore<SavedRecap[]>(STORES.recaps, 'readonly', store =>
+    store.index('owner').getAll(IDBKeyRange.only(owner))
+  );
+
+export const listAllRecaps = (): Promise<SavedRecap[]> =>
+  withStore<SavedRecap[]>(STORES.recaps, 'readonly', store => store.getAll());
+
+export const getRecap = (id: string): Promise<SavedRecap | undefined> =>
+  withStore<SavedRecap | undefined>(STORES.recaps, 'readonly', store => store.get(id));
+
+export const saveRecap = async (
+  owner: string,
+  movie: MovieInfo,
+  recap: GeneratedRecap,
+  model: string
+): Promise<SavedRecap> => {
+  const entry: SavedRecap = { id: createId(), owner, movie, recap, model, createdAt: Date.now() };
+  await withStore(STORES.recaps, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const updateRecap = async (entry: SavedRecap): Promise<SavedRecap> => {
+  await withStore(STORES.recaps, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const duplicateRecap = async (entry: SavedRecap, owner: string): Promise<SavedRecap> => {
+  const copy: SavedRecap = {
+    ...entry,
+    id: createId(),
+    owner,
+    movie: { ...entry.movie, title: `${entry.movie.title} (Copy)` },
+    createdAt: Date.now()
+  };
+  await withStore(STORES.recaps, 'readwrite', store => store.put(copy));
+  return copy;
+};
+
+export const deleteRecap = async (id: string): Promise<void> => {
+  await withStore(STORES.recaps, 'readwrite', store => store.delete(id));
+};
+
+// Filtering runs in memory: a user's library is small and IndexedDB has no
+// substring matching, so indexes would only help the owner lookup.
+export const queryRecaps = (entries: SavedRecap[], query: LibraryQuery): SavedRecap[] => {
+  const needle = query.search.trim().toLowerCase();
+  const filtered = entries.filter(({ movie }) => {
+    if (needle && ![movie.title, movie.director, movie.genre].some(f => f.toLowerCase().includes(needle))) {
+      return false;
+    }
+    if (query.tone && movie.tone !== query.tone) return false;
+    if (query.spoilers !== 'any' && movie.includeSpoilers !== (query.spoilers === 'yes')) return false;
+    return true;
+  });
+
+  return filtered.sort((a, b) => {
+    switch (query.sort) {
+      case 'oldest': return a.createdAt - b.createdAt;
+      case 'title': return a.movie.title.localeCompare(b.movie.title);
+      // Highest overall score first; recaps without a scorecard go last.
+      case 'score': return (b.recap.scorecard?.overall ?? -1) - (a.recap.scorecard?.overall ?? -1);
+      default: return b.createdAt - a.createdAt;
+    }
+  });
+};
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderSettings, QuotaRule, RecapProvider, RecapRequest, UsageRecord, User } from "../types";
+
+type Row = UsageRecord | QuotaRule;
+
+// The object store calls the metering layer makes, answered from in-memory maps.
+interface FakeStore {
+  getAll(): Row[];
+  index(field: 'username'): { getAll(username: unknown): Row[] };
+  add(row: Row): void;
+  put(row: Row): void;
+}
+
+const stores = vi.hoisted(() => ({ usage: new Map<string, UsageRecord>(), quotas: new Map<string, QuotaRule>() }));
+
+vi.mock("./db", () => ({
+  STORES: { usage: 'usage', quotas: 'quotas' },
+  createId: () => Math.random().toString(36).slice(2),
+  withStore: async (name: 'usage' | 'quotas', _mode: string, run: (store: FakeStore) => unknown) => {
+    const rows: Map<string, Row> = stores[name];
+    return run({
+      getAll: () => [...rows.values()],
+      index: () => ({ getAll: username => [...stores.usage.values()].filter(row => row.username === username) }),
+      add: row => {
+        if (rows.has(row.id)) throw new Error('Key already exists');
+        rows.set(row.id, row);
+      },
+      put: row => { rows.set(row.id, row); }
+    });
+  }
+}));
+
+const user: User = { username: 'sam', deviceId: 'device-1', role: 'editor' };
+vi.mock("./authService", () => ({ getActiveUser: () => user }));
+vi.mock("./auditLog", () => ({ appendAudit: async () => {} }));
+
+vi.stubGlobal('IDBKeyRange', { only: (value: unknown) => value });
+
+const { QuotaError, meteredGenerate } = await import("./metering");
+
+const settings: ProviderSettings = { providerId: 'mock', model: 'mock-1' } as ProviderSettings;
+const request = { messages: [{ role: 'user', text: 'Recap Heat' }] } as RecapRequest;
+const meta = { purpose: 'recap' as const, attempt: 0 };
+const send = (provider: RecapProvider) => meteredGenerate(provider, request, settings, { model: 'mock-1' }, meta);
+
+// Holds every request open until release() so calls overlap.
+const slowProvider = () => {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const provider = {
+    id: 'mock',
+    label: 'Mock',
+    models: ['mock-1'],
+    customModels: false,
+    generate: vi.fn(async () => {
+      await gate;
+      return '{}';
+    })
+  } as unknown as RecapProvider;
+  return { provider, release };
+};
+
+const rule = (daily: QuotaRule['daily']): QuotaRule => ({
+  id: 'role:editor', scope: 'role', subject: 'editor', daily, monthly: {}, updatedAt: 0, updatedBy: 'admin'
+});
+
+beforeEach(() => {
+  stores.usage.clear();
+  stores.quotas.clear();
+});
+
+describe('meteredGenerate', () => {
+  it('lets only as many parallel requests through as the quota allows', async () => {
+    stores.quotas.set('role:editor', rule({ requests: 2 }));
+    const { provider, release } = slowProvider();
+
+    const calls = [1, 2, 3].map(() => send(provider));
+    // Settle the rejected call before the provider answers the others.
+    await expect(calls[2]).rejects.toBeInstanceOf(QuotaError);
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+
+    release();
+    await expect(Promise.all(calls.slice(0, 2))).resolves.toEqual(['{}', '{}']);
+  });
+
+  it('reserves a pending record before sending and completes it afterwards', async () => {
+    const { provider, release } = slowProvider();
+    const call = send(provider);
+
+    await vi.waitFor(() => expect(provider.generate).toHaveBeenCalled());
+    expect([...stores.usage.values()].map((r: UsageRecord) => r.outcome)).toEqual(['pending']);
+
+    release();
+    await call;
+    expect([...stores.usage.values()].map((r: UsageRecord) => r.outcome)).toEqual(['ok']);
+  });
+
+  it('keeps checking after a request is refused', async () => {
+    stores.quotas.set('role:editor', rule({ requests: 1 }));
+    const { provider, release } = slowProvider();
+    release();
+
+    await send(provider);
+    await expect(send(provider)).rejects.toBeInstanceOf(QuotaError);
+
+    stores.quotas.set('role:editor', rule({ requests: 3 }));
+    await expect(send(provider)).resolves.toBe('{}');
+  });
+});
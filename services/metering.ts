@@ -0,0 +1,234 @@
+import {
+  GenerateOptions,
+  ProviderSettings,
+  QuotaLimit,
+  QuotaRule,
+  RecapProvider,
+  RecapRequest,
+  RequestPurpose,
+  TokenUsage,
+  UsageRecord,
+  User
+} from "../types";
+import { STORES, createId, withStore } from "./db";
+import { getActiveUser } from "./authService";
+import { appendAudit } from "./auditLog";
+import { isAbortError } from "./abort";
+
+// Every provider request goes through meteredGenerate: it checks the signed-in
+// user's quotas and reserves a usage record before anything is sent, then
+// fills in which model answered, how long it took and the tokens it used.
+
+export type QuotaPeriod = 'daily' | 'monthly';
+export type QuotaUnit = keyof QuotaLimit;
+
+export const QUOTA_PERIODS: { period: QuotaPeriod; label: string }[] = [
+  { period: 'daily', label: 'Daily' },
+  { period: 'monthly', label: 'Monthly' }
+];
+
+export const QUOTA_UNITS: { unit: QuotaUnit; label: string }[] = [
+  { unit: 'requests', label: 'requests' },
+  { unit: 'tokens', label: 'tokens' }
+];
+
+export class QuotaError extends Error {
+  period: QuotaPeriod;
+  unit: QuotaUnit;
+  limit: number;
+
+  constructor(period: QuotaPeriod, unit: QuotaUnit, limit: number) {
+    super(`${period === 'daily' ? 'Daily' : 'Monthly'} allowance used up: ${limit.toLocaleString()} ${unit}. It resets ${period === 'daily' ? 'at midnight' : 'on the 1st'}; ask an admin for more.`);
+    this.name = 'QuotaError';
+    this.period = period;
+    this.unit = unit;
+    this.limit = limit;
+  }
+}
+
+export const requestPurpose = (request: RecapRequest): RequestPurpose =>
+  request.versus ? 'versus'
+  : request.translateTo ? 'translate'
+  : request.focus ? 'section'
+  : request.messages.length > 1 ? 'refine'
+  : 'recap';
+
+// --- Usage records ---
+
+/** Local midnight, or local midnight on the 1st for the monthly period. */
+export const periodStart = (period: QuotaPeriod, now = Date.now()): number => {
+  const date = new Date(now);
+  return period === 'daily'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const listUsage = (): Promise<UsageRecord[]> =>
+  withStore<UsageRecord[]>(STORES.usage, 'readonly', store => store.getAll());
+
+const listUserUsageSince = async (username: string, since: number): Promise<UsageRecord[]> =>
+  (await withStore<UsageRecord[]>(STORES.usage, 'readonly', store =>
+    store.index('username').getAll(IDBKeyRange.only(username))
+  )).filter(record => record.startedAt >= since);
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+}
+
+// Aborted and pending requests still count: the provider may already have done the work.
+export const totalUsage = (records: UsageRecord[]): UsageTotals => ({
+  requests: records.length,
+  tokens: records.reduce((sum, record) => sum + (record.usage?.totalTokens ?? 0), 0)
+});
+
+// --- Quota rules ---
+
+export const quotaRuleId = (scope: QuotaRule['scope'], subject: string) => `${scope}:${subject}`;
+
+export const listQuotaRules = (): Promise<QuotaRule[]> =>
+  withStore<QuotaRule[]>(STORES.quotas, 'readonly', store => store.getAll());
+
+export const saveQuotaRule = async (
+  scope: QuotaRule['scope'],
+  subject: string,
+  limits: Pick<QuotaRule, 'daily' | 'monthly'>,
+  admin: User
+): Promise<QuotaRule> => {
+  const rule: QuotaRule = { id: quotaRuleId(scope, subject), scope, subject, ...limits, updatedAt: Date.now(), updatedBy: admin.username };
+  await withStore(STORES.quotas, 'readwrite', store => store.put(rule));
+  return rule;
+};
+
+export const deleteQuotaRule = async (id: string): Promise<void> => {
+  await withStore(STORES.quotas, 'readwrite', store => store.delete(id));
+};
+
+const stripUnset = (limit?: QuotaLimit): QuotaLimit =>
+  Object.fromEntries(Object.entries(limit ?? {}).filter(([, value]) => typeof value === 'number'));
+
+/** A user's own rule wins field by field; anything it leaves unset falls back to the role rule. */
+export const effectiveQuota = (
+  user: Pick<User, 'username' | 'role'>,
+  rules: QuotaRule[]
+): Record<QuotaPeriod, QuotaLimit> => {
+  const roleRule = rules.find(r => r.id === quotaRuleId('role', user.role));
+  const userRule = rules.find(r => r.id === quotaRuleId('user', user.username));
+  return {
+    daily: { ...roleRule?.daily, ...stripUnset(userRule?.daily) },
+    monthly: { ...roleRule?.monthly, ...stripUnset(userRule?.monthly) }
+  };
+};
+
+export interface QuotaStatus {
+  period: QuotaPeriod;
+  used: UsageTotals;
+  limit: QuotaLimit;
+}
+
+export const quotaStatus = async (user: Pick<User, 'username' | 'role'>, now = Date.now()): Promise<QuotaStatus[]> => {
+  const [rules, records] = await Promise.all([
+    listQuotaRules(),
+    listUserUsageSince(user.username, periodStart('monthly', now))
+  ]);
+  const limits = effectiveQuota(user, rules);
+  return QUOTA_PERIODS.map(({ period }) => ({
+    period,
+    used: totalUsage(records.filter(record => record.startedAt >= periodStart(period, now))),
+    limit: limits[period]
+  }));
+};
+
+/** Throws QuotaError when any limit is already reached. */
+export const assertWithinQuota = async (user: Pick<User, 'username' | 'role'>): Promise<void> => {
+  for (const { period, used, limit } of await quotaStatus(user)) {
+    for (const { unit } of QUOTA_UNITS) {
+      const max = limit[unit];
+      if (max !== undefined && used[unit] >= max) throw new QuotaError(period, unit, max);
+    }
+  }
+};
+
+// --- Metered request ---
+
+const describeOutcome = (record: UsageRecord): string =>
+  [
+    `${record.purpose}${record.attempt ? ` (retry ${record.attempt})` : ''}`,
+    `${record.providerId}/${record.model}`,
+    record.usage ? `${record.usage.totalTokens.toLocaleString()} tokens` : 'tokens unknown',
+    `${(record.latencyMs / 1000).toFixed(1)}s`,
+    record.outcome === 'ok' ? '' : record.error ? `${record.outcome}: ${record.error}` : record.outcome
+  ].filter(Boolean).join(' · ');
+
+// Check-and-reserve runs for one request at a time, so parallel requests each
+// see the reservations made before them instead of all passing the same check.
+let reservations: Promise<unknown> = Promise.resolve();
+
+const reserveUsage = (user: Pick<User, 'username' | 'role'>, record: UsageRecord): Promise<void> => {
+  const reserved = reservations.then(async () => {
+    await assertWithinQuota(user);
+    await withStore(STORES.usage, 'readwrite', store => store.add(record));
+  });
+  reservations = reserved.catch(() => undefined);
+  return reserved;
+};
+
+const finishUsage = async (record: UsageRecord) => {
+  try {
+    await withStore(STORES.usage, 'readwrite', store => store.put(record));
+  } catch (err) {
+    console.warn('Could not record usage', record, err);
+  }
+  await appendAudit('generation', record, describeOutcome(record));
+};
+
+export const meteredGenerate = async (
+  provider: RecapProvider,
+  request: RecapRequest,
+  settings: ProviderSettings,
+  options: GenerateOptions,
+  meta: { purpose: RequestPurpose; attempt: number }
+): Promise<string> => {
+  const user = getActiveUser();
+  if (!user) throw new Error('Sign in before generating recaps.');
+
+  const pending: UsageRecord = {
+    id: createId(),
+    username: user.username,
+    deviceId: user.deviceId,
+    role: user.role,
+    providerId: settings.providerId,
+    model: settings.model,
+    ...meta,
+    startedAt: Date.now(),
+    latencyMs: 0,
+    outcome: 'pending'
+  };
+  try {
+    await reserveUsage(user, pending);
+  } catch (err) {
+    if (err instanceof QuotaError) await appendAudit('quota_exceeded', user, `${meta.purpose} · ${err.message}`);
+    throw err;
+  }
+
+  // Latency starts once the reservation is made; waiting behind other checks is not the provider's time.
+  const sentAt = Date.now();
+  let usage: TokenUsage | undefined;
+  const record = (outcome: UsageRecord['outcome'], error?: string) =>
+    finishUsage({ ...pending, latencyMs: Date.now() - sentAt, usage, outcome, error });
+
+  try {
+    const text = await provider.generate(request, {
+      ...options,
+      onUsage: reported => {
+        usage = reported;
+        options.onUsage?.(reported);
+      }
+    });
+    await record('ok');
+    return text;
+  } catch (err: any) {
+    await record(isAbortError(err) ? 'aborted' : 'error', isAbortError(err) ? undefined : String(err?.message ?? err));
+    throw err;
+  }
+};
@@ -0,0 +1,186 @@
+import { MovieInfo, GeneratedRecap, GenerateOptions, RecapProvider, RecapRequest, Scorecard, VersusRecap } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { abortError, throwIfAborted } from "./abort";
+
+// Template-based offline backend. Output depends only on the MovieInfo, so
+// demos and tests get the same recap every time without a key or network.
+
+export const MOCK_MODEL = 'template-v1';
+
+const CHUNK_SIZE = 48;
+
+const TAGLINES = [
+  '{title}: every frame earns its place.',
+  'In {title}, nothing stays buried for long.',
+  '{title} dares you to look away — and you won\'t.',
+  'One story. No way back. {title}.'
+];
+
+const VERDICTS = [
+  'A confident, {tone} piece of filmmaking that rewards a full-attention watch.',
+  'Uneven in places, but {title} lands its biggest moments with a {tone} punch.',
+  'Essential viewing for {genre} fans and a strong calling card for {director}.'
+];
+
+// djb2 — stable across runs, which is the whole point here.
+const hash = (text: string): number => {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const fill = (template: string, info: MovieInfo): string =>
+  template
+    .replace(/\{title\}/g, info.title || 'This film')
+    .replace(/\{genre\}/g, info.genre || 'genre')
+    .replace(/\{director\}/g, info.director || 'its director')
+    .replace(/\{tone\}/g, (info.tone || 'dramatic').toLowerCase());
+
+const plotSentences = (info: MovieInfo): string[] =>
+  info.keyPlotPoints
+    .split(/[\n.;]+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+// Scores between 5 and 9.5 in half steps, derived from the seed.
+const mockScorecard = (info: MovieInfo, seed: number): Scorecard => {
+  const score = (salt: number) => 5 + (((seed >> salt) & 0xff) % 10) / 2;
+  const [story, acting, visuals, pacing] = [0, 3, 6, 9].map(score);
+  return {
+    overall: Math.round(((story + acting + visuals + pacing) / 4) * 2) / 2,
+    story,
+    acting,
+    visuals,
+    pacing,
+    confidence: info.keyPlotPoints.trim() ? 0.7 : 0.4,
+    recommendedAudience: fill('Fans of {tone} {genre}', info)
+  };
+};
+
+export const buildMockRecap = (info: MovieInfo, variant = 0): GeneratedRecap => {
+  const seed = hash(`${info.title}|${info.tone}|${info.length}`) + variant;
+  const points = plotSentences(info);
+  const shown = info.includeSpoilers ? points : points.slice(0, Math.max(1, Math.ceil(points.length / 2)));
+  const paragraphs = { short: 1, medium: 2, detailed: 3 }[info.length];
+
+  const summary = [
+    fill('{title} is a {tone} {genre} outing from {director}.', info) +
+      (shown.length ? ` It opens on a simple premise: ${shown[0]}.` : ''),
+    shown.length > 1 ? `${shown.slice(1).join('. ')}.` : fill('The film builds steadily toward its central conflict.', info),
+    info.includeSpoilers
+      ? fill('By the final act, {title} pays off every thread it set up.', info)
+      : 'The final act is best experienced without knowing what is coming.'
+  ].slice(0, paragraphs).join('\n\n');
+
+  return {
+    tagline: fill(TAGLINES[seed % TAGLINES.length], info),
+    summary,
+    characterAnalysis: fill('The lead carries {title} with a performance that matches its {tone} register, while the supporting cast gives the {genre} framework real weight.', info),
+    keyTakeaways: [
+      fill('A {tone} approach to {genre}', info),
+      fill('{director}\'s control of pacing', info),
+      ...(points.length ? [`Built around: ${points[0]}`] : [])
+    ],
+    verdict: fill(VERDICTS[seed % VERDICTS.length], info),
+    scorecard: mockScorecard(info, seed)
+  };
+};
+
+export const buildMockVersus = (first: MovieInfo, second: MovieInfo): VersusRecap => {
+  const seed = hash(`${first.title}|${second.title}`);
+  const winner = (['first', 'second', 'tie'] as const)[seed % 3];
+  const leader = winner === 'second' ? second : first;
+  const trailer = winner === 'second' ? first : second;
+  return {
+    tagline: `${first.title || 'One film'} vs. ${second.title || 'another'}: same story, two answers.`,
+    comparativeSummary: [
+      `${fill('{title} takes a {tone} approach to its {genre} material under {director}', first)}, while ${fill('{title} comes at it from {director}\'s angle', second)}.`,
+      'Both films cover similar ground, but they differ in pacing, focus and what they ask of the audience.'
+    ].join('\n\n'),
+    keyDifferences: [
+      `Direction: ${first.director || 'unknown'} vs. ${second.director || 'unknown'}`,
+      `Genre framing: ${first.genre || 'unspecified'} vs. ${second.genre || 'unspecified'}`,
+      'Where each film puts its emotional weight'
+    ],
+    headToHeadVerdict: winner === 'tie'
+      ? `${first.title} and ${second.title} each win on their own terms; watch both.`
+      : `${leader.title} edges out ${trailer.title} with the surer hand and the stronger finish.`,
+    winner
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+// Follow-up turns swap in the next template variant for the focused section
+// (the verdict when the instruction is free-form) and keep everything else.
+const reviseMockRecap = ({ info, messages, focus }: RecapRequest): GeneratedRecap => {
+  const lastModel = [...messages].reverse().find(m => m.role === 'model');
+  const base: GeneratedRecap = lastModel ? JSON.parse(lastModel.text) : buildMockRecap(info);
+  const revision = messages.filter(m => m.role === 'user').length;
+  const field = focus ?? 'verdict';
+  // Step through variants until one differs, so every revision visibly changes.
+  let value = base[field];
+  for (let v = revision; v < revision + TAGLINES.length && JSON.stringify(value) === JSON.stringify(base[field]); v++) {
+    value = buildMockRecap(info, v)[field];
+  }
+  return { ...base, [field]: value };
+};
+
+// There is no offline dictionary; mark each field with the language code so
+// the side-by-side view and exports can still be exercised.
+const translateMockRecap = ({ messages, translateTo }: RecapRequest): GeneratedRecap => {
+  const source: GeneratedRecap = JSON.parse([...messages].reverse().find(m => m.role === 'model')!.text);
+  const tag = (text: string) => `[${translateTo}] ${text}`;
+  return {
+    tagline: tag(source.tagline),
+    summary: tag(source.summary),
+    characterAnalysis: tag(source.characterAnalysis),
+    keyTakeaways: source.keyTakeaways.map(tag),
+    verdict: tag(source.verdict),
+    scorecard: source.scorecard && { ...source.scorecard, recommendedAudience: tag(source.scorecard.recommendedAudience) }
+  };
+};
+
+// Rough four-characters-per-token estimate, so metering and quotas can be tried offline.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const generateMockRecap = async (
+  request: RecapRequest,
+  { signal, onPartial, onUsage }: GenerateOptions
+): Promise<string> => {
+  throwIfAborted(signal);
+  const recap = request.versus
+    ? buildMockVersus(request.info, request.versus)
+    : request.translateTo
+    ? translateMockRecap(request)
+    : request.messages.length > 1 ? reviseMockRecap(request) : buildMockRecap(request.info);
+  const text = JSON.stringify(recap);
+
+  // Replay the JSON in chunks so the streaming UI behaves as it does live.
+  if (onPartial) {
+    for (let end = CHUNK_SIZE; end < text.length; end += CHUNK_SIZE) {
+      await wait(20, signal);
+      onPartial(parsePartialJson<GeneratedRecap>(text.slice(0, end)));
+    }
+  }
+  throwIfAborted(signal);
+  const promptTokens = estimateTokens(request.messages.map(m => m.text).join('\n'));
+  const outputTokens = estimateTokens(text);
+  onUsage?.({ promptTokens, outputTokens, totalTokens: promptTokens + outputTokens });
+  return text;
+};
+
+export const mockProvider: RecapProvider = {
+  id: 'mock',
+  label: 'Offline templates',
+  models: [MOCK_MODEL],
+  customModels: false,
+  generate: generateMockRecap
+};
@@ -0,0 +1,138 @@
+import { CaptionCue } from "./exportService";
+
+// Browser read-aloud of a recap via the Web Speech API. Each caption cue is
+// spoken as its own utterance: onstart then tells us exactly which sentence is
+// playing, and short utterances avoid Chrome cutting long ones off mid-way.
+
+const SETTINGS_KEY = 'cinerecap_narration';
+
+export interface NarrationSettings {
+  voiceURI: string; // '' = browser default for the recap language
+  rate: number;     // 0.5–2
+  pitch: number;    // 0–2
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = { voiceURI: '', rate: 1, pitch: 1 };
+
+export const loadNarrationSettings = (): NarrationSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (saved && typeof saved.rate === 'number' && typeof saved.pitch === 'number') {
+      return { ...DEFAULT_NARRATION, ...saved };
+    }
+  } catch {
+    // fall through to the defaults
+  }
+  return DEFAULT_NARRATION;
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const canNarrate = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Resolves once the browser has loaded its voice list (Chrome fills it asynchronously). */
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!canNarrate()) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(speechSynthesis.getVoices());
+    };
+    // Some browsers never fire voiceschanged when they have no voices at all.
+    const timer = setTimeout(done, 2000);
+    speechSynthesis.addEventListener('voiceschanged', done);
+  });
+};
+
+/** Voices for the recap language first, then the rest, each group by name. */
+export const sortVoices = (voices: SpeechSynthesisVoice[], language: string): SpeechSynthesisVoice[] => {
+  const matches = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().split(/[-_]/)[0] === language.toLowerCase();
+  return [...voices].sort((a, b) => Number(matches(b)) - Number(matches(a)) || a.name.localeCompare(b.name));
+};
+
+export type NarrationState = 'idle' | 'playing' | 'paused';
+
+export interface NarrationEvents {
+  /** Index into the cue list of the sentence now being spoken, or -1 when stopped. */
+  onCue: (index: number) => void;
+  onStateChange: (state: NarrationState) => void;
+  onError?: (message: string) => void;
+}
+
+export const createNarrationPlayer = (events: NarrationEvents) => {
+  let cues: CaptionCue[] = [];
+  let settings: NarrationSettings = DEFAULT_NARRATION;
+  let language = 'en';
+  let voice: SpeechSynthesisVoice | undefined;
+  // Bumped on every stop/restart so callbacks from cancelled utterances are ignored.
+  let run = 0;
+
+  const setState = (state: NarrationState) => events.onStateChange(state);
+
+  const speak = (index: number, token: number) => {
+    if (token !== run) return;
+    if (index >= cues.length) {
+      events.onCue(-1);
+      setState('idle');
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(cues[index].text);
+    utterance.lang = voice?.lang || language;
+    if (voice) utterance.voice = voice;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.onstart = () => { if (token === run) events.onCue(index); };
+    utterance.onend = () => speak(index + 1, token);
+    utterance.onerror = event => {
+      // cancel() reports 'interrupted' / 'canceled'; those are our own stops.
+      if (token !== run || event.error === 'interrupted' || event.error === 'canceled') return;
+      events.onError?.(`Speech failed: ${event.error}`);
+      stop();
+    };
+    speechSynthesis.speak(utterance);
+  };
+
+  const stop = () => {
+    run++;
+    if (canNarrate()) speechSynthesis.cancel();
+    events.onCue(-1);
+    setState('idle');
+  };
+
+  return {
+    /** Starts (or restarts) from the given cue with the current settings. */
+    play: (
+      list: CaptionCue[],
+      options: { settings: NarrationSettings; voices: SpeechSynthesisVoice[]; language: string },
+      from = 0
+    ) => {
+      if (!canNarrate()) {
+        events.onError?.('This browser cannot read text aloud.');
+        return;
+      }
+      stop();
+      cues = list;
+      settings = options.settings;
+      language = options.language;
+      voice = options.voices.find(v => v.voiceURI === settings.voiceURI);
+      setState('playing');
+      speak(from, run);
+    },
+    pause: () => {
+      speechSynthesis.pause();
+      setState('paused');
+    },
+    resume: () => {
+      speechSynthesis.resume();
+      setState('playing');
+    },
+    stop
+  };
+};
+
+export type NarrationPlayer = ReturnType<typeof createNarrationPlayer>;
@@ -0,0 +1,96 @@
+import { GeneratedRecap, GenerateOptions, RecapProvider, RecapRequest } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { throwIfAborted } from "./abort";
+import { schemaFor, schemaToInstructions } from "./recapSchema";
+
+// Talks to any server exposing the OpenAI chat-completions API (Ollama,
+// LM Studio, llama.cpp, vLLM...). Defaults point at a local Ollama install.
+
+export const OPENAI_DEFAULT_BASE_URL = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+  /** Only on the last chunk, and only when stream_options.include_usage is set. */
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+// Yields the `data:` payloads of a server-sent-events response body.
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const generateOpenAiRecap = async (
+  request: RecapRequest,
+  { model, baseUrl, signal, onPartial, onUsage }: GenerateOptions
+): Promise<string> => {
+  throwIfAborted(signal);
+  const url = `${(baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      stream: true,
+      stream_options: { include_usage: true },
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: schemaToInstructions(schemaFor(request)).trim() },
+        ...request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+      ]
+    })
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Model server responded with ${response.status} ${response.statusText}`.trim());
+  }
+
+  let text = '';
+  for await (const data of readServerSentEvents(response.body)) {
+    if (data === '[DONE]') break;
+    const chunk: ChatCompletionChunk = JSON.parse(data);
+    if (chunk.usage) {
+      onUsage?.({
+        promptTokens: chunk.usage.prompt_tokens,
+        outputTokens: chunk.usage.completion_tokens,
+        totalTokens: chunk.usage.total_tokens
+      });
+    }
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (!delta) continue;
+    text += delta;
+    onPartial?.(parsePartialJson<GeneratedRecap>(text));
+  }
+  throwIfAborted(signal);
+
+  return text;
+};
+
+export const openAiProvider: RecapProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible server',
+  models: ['llama3.1', 'qwen2.5', 'gpt-4o-mini'],
+  customModels: true,
+  generate: generateOpenAiRecap
+};
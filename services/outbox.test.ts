@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BatchJob, GeneratedRecap, JobStatus, MovieInfo, ProviderSettings, SavedRecap } from "../types";
+
+// The object store calls the queue makes, answered from an in-memory map.
+interface FakeJobStore {
+  index(field: string): { getAll(owner: unknown): BatchJob[] };
+  put(job: BatchJob): void;
+  delete(id: string): void;
+}
+
+const stored = vi.hoisted(() => new Map<string, BatchJob>());
+const saveRecap = vi.hoisted(() => vi.fn());
+
+vi.mock("./db", () => ({
+  STORES: { jobs: 'jobs', outbox: 'outbox' },
+  createId: () => Math.random().toString(36).slice(2),
+  withStore: async (_name: string, _mode: string, run: (store: FakeJobStore) => unknown) => run({
+    index: () => ({ getAll: owner => [...stored.values()].filter(job => job.owner === owner) }),
+    put: job => { stored.set(job.id, job); },
+    delete: id => { stored.delete(id); }
+  })
+}));
+vi.mock("./libraryService", () => ({ saveRecap }));
+vi.mock("./recapProvider", () => ({ describeModel: () => 'mock-1', generateMovieRecap: async () => recap }));
+vi.mock("./metering", () => ({ QuotaError: class extends Error {} }));
+
+vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+vi.stubGlobal('IDBKeyRange', { only: (value: unknown) => value });
+
+const { onOutboxRecapReady, outbox } = await import("./outbox");
+
+const movie: MovieInfo = {
+  title: 'Heat',
+  genre: 'Crime',
+  director: 'Michael Mann',
+  keyPlotPoints: 'A heist crew and a detective',
+  tone: 'Dramatic',
+  includeSpoilers: false,
+  length: 'short'
+};
+const recap: GeneratedRecap = { tagline: 'Cops and robbers.', summary: '', characterAnalysis: '', keyTakeaways: [], verdict: '' };
+const settings = { providerId: 'openai', model: 'mock-1' } as ProviderSettings;
+const entry: SavedRecap = { id: 'recap-1', owner: 'sam', movie, recap, model: 'mock-1', createdAt: 0 };
+
+// A job that finished generating but never reached the library.
+const completed: BatchJob = {
+  id: 'job-1', owner: 'sam', movie, settings, status: JobStatus.COMPLETED, attempts: 1, createdAt: 0, result: recap
+};
+
+beforeEach(() => {
+  outbox.detach();
+  stored.clear();
+  saveRecap.mockReset();
+});
+
+describe('outbox', () => {
+  it('moves a freshly generated recap into the library', async () => {
+    saveRecap.mockResolvedValue(entry);
+    const ready = vi.fn();
+    const stop = onOutboxRecapReady(ready);
+
+    await outbox.attach('sam');
+    await outbox.enqueue([movie], settings);
+    await vi.waitFor(() => expect(ready).toHaveBeenCalledWith(entry));
+
+    expect(saveRecap).toHaveBeenCalledTimes(1);
+    expect(saveRecap).toHaveBeenCalledWith('sam', movie, recap, 'mock-1');
+    expect(stored.size).toBe(0);
+    stop();
+  });
+
+  it('delivers a recap that was completed before the page closed', async () => {
+    stored.set(completed.id, completed);
+    saveRecap.mockResolvedValue(entry);
+
+    await outbox.attach('sam');
+    await vi.waitFor(() => expect(stored.size).toBe(0));
+    expect(saveRecap).toHaveBeenCalledWith('sam', movie, recap, 'mock-1');
+  });
+
+  it('keeps a completed job when the library save fails and tries again on the next attach', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stored.set(completed.id, completed);
+    saveRecap.mockRejectedValueOnce(new Error('QuotaExceededError')).mockResolvedValue(entry);
+
+    await outbox.attach('sam');
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+    expect(stored.get(completed.id)?.status).toBe(JobStatus.COMPLETED);
+
+    outbox.detach();
+    await outbox.attach('sam');
+    await vi.waitFor(() => expect(stored.size).toBe(0));
+    expect(saveRecap).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,59 @@
+import { BatchJob, ProviderSettings, SavedRecap } from "../types";
+import { STORES } from "./db";
+import { createBatchQueue } from "./batchQueue";
+import { isOnline } from "./connectivity";
+import { describeModel, generateMovieRecap } from "./recapProvider";
+import { saveRecap } from "./libraryService";
+
+// Studio recaps requested while offline. They wait in their own persisted
+// queue, run one at a time once the connection returns, and move to the
+// library when done. A recap that could not be moved yet stays in the outbox
+// as completed until the next sign-in tries again.
+
+type ReadyListener = (entry: SavedRecap) => void;
+
+const readyListeners = new Set<ReadyListener>();
+
+/** The mock provider runs in the browser, so it never needs the outbox. */
+export const shouldQueueOffline = (settings: ProviderSettings): boolean =>
+  settings.providerId !== 'mock' && !isOnline();
+
+/** Asks once, from a user gesture, so finished recaps can notify while the tab is hidden. */
+export const requestNotificationPermission = async () => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch {
+    // Older Safari only supports the callback form; in-app notices still work.
+  }
+};
+
+const notifySystem = (entry: SavedRecap) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || document.visibilityState === 'visible') return;
+  const notification = new Notification('Recap ready', { body: entry.movie.title, tag: entry.id });
+  notification.onclick = () => window.focus();
+};
+
+const deliver = async (job: BatchJob) => {
+  try {
+    const entry = await saveRecap(job.owner, job.movie, job.result!, describeModel(job.settings));
+    await outbox.remove([job.id]);
+    notifySystem(entry);
+    readyListeners.forEach(listener => listener(entry));
+  } catch (err) {
+    // The job stays in the outbox as completed and is delivered again on the next attach.
+    console.warn('Could not move outbox recap to library', err);
+  }
+};
+
+export const outbox = createBatchQueue(
+  (job, signal) => generateMovieRecap(job.movie, job.settings, { signal }),
+  job => { deliver(job); },
+  { store: STORES.outbox, pausedKey: 'cinerecap_outbox_paused', concurrency: 1, redeliver: true }
+);
+
+/** Called with each queued recap once it has been generated and saved. */
+export const onOutboxRecapReady = (listener: ReadyListener): (() => void) => {
+  readyListeners.add(listener);
+  return () => { readyListeners.delete(listener); };
+};
@@ -0,0 +1,64 @@
+// Tolerant parsing for JSON that is still being streamed (or was cut off).
+// The model writes one top-level object, so every prefix of its output can be
+// turned into valid JSON by closing the open string and containers, after
+// trimming any token that is only half written (a bare key, `tru`, `1.`).
+
+const MAX_TRIM = 256;
+
+interface ScanState {
+  stack: string[];
+  inString: boolean;
+  escaped: boolean;
+}
+
+const scan = (text: string): ScanState => {
+  const state: ScanState = { stack: [], inString: false, escaped: false };
+  for (const ch of text) {
+    if (state.inString) {
+      if (state.escaped) state.escaped = false;
+      else if (ch === '\\') state.escaped = true;
+      else if (ch === '"') state.inString = false;
+      continue;
+    }
+    if (ch === '"') state.inString = true;
+    else if (ch === '{') state.stack.push('}');
+    else if (ch === '[') state.stack.push(']');
+    else if (ch === '}' || ch === ']') state.stack.pop();
+  }
+  return state;
+};
+
+const complete = (prefix: string): string => {
+  const { stack, inString, escaped } = scan(prefix);
+  let out = prefix;
+  if (inString) out = (escaped ? out.slice(0, -1) : out) + '"';
+  return out + stack.reverse().join('');
+};
+
+/**
+ * Returns the closed-up JSON text for a truncated document, or null when no
+ * prefix of it parses. Complete documents are returned unchanged.
+ */
+export const closeTruncatedJson = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+  const body = text.slice(start).trimEnd();
+
+  for (let end = body.length; end > 0 && body.length - end <= MAX_TRIM; end--) {
+    const candidate = complete(body.slice(0, end));
+    try {
+      JSON.parse(candidate);
+      return candidate;
+    } catch {
+      // keep trimming until the half-written token is gone
+    }
+  }
+  return null;
+};
+
+export const parsePartialJson = <T>(text: string): Partial<T> => {
+  const closed = closeTruncatedJson(text);
+  if (!closed) return {};
+  const value = JSON.parse(closed);
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { Role, User } from "../types";
+import { Permission, PermissionError, ROLES, assertCan, can, canModifyRecap, permissionsFor } from "./permissions";
+
+// The full matrix, written out so a change to any role shows up here.
+const EXPECTED: Record<Permission, Role[]> = {
+  'recap:generate': ['admin', 'editor'],
+  'recap:edit': ['admin', 'editor'],
+  'recap:editAny': ['admin'],
+  'library:readAll': ['admin', 'editor', 'viewer'],
+  'styles:edit': ['admin', 'editor'],
+  'styles:manage': ['admin'],
+  'users:manage': ['admin'],
+  'usage:manage': ['admin']
+};
+const PERMISSIONS = Object.keys(EXPECTED) as Permission[];
+
+const user = (role: Role, username: string = role): User => ({ username, deviceId: 'device-1', role });
+
+describe('can', () => {
+  for (const role of ROLES) {
+    for (const permission of PERMISSIONS) {
+      const allowed = EXPECTED[permission].includes(role);
+      it(`${role} ${allowed ? 'may' : 'may not'} use ${permission}`, () => {
+        expect(can(user(role), permission)).toBe(allowed);
+      });
+    }
+  }
+
+  it('refuses everything without a user', () => {
+    for (const permission of PERMISSIONS) {
+      expect(can(null, permission)).toBe(false);
+      expect(can(undefined, permission)).toBe(false);
+    }
+  });
+
+  it('refuses everything for an unknown role', () => {
+    const stranger = { role: 'superuser' as Role };
+    for (const permission of PERMISSIONS) expect(can(stranger, permission)).toBe(false);
+  });
+});
+
+describe('permissionsFor', () => {
+  it('lists exactly the permissions each role has', () => {
+    for (const role of ROLES) {
+      expect([...permissionsFor(role)].sort()).toEqual(PERMISSIONS.filter(p => EXPECTED[p].includes(role)).sort());
+    }
+  });
+
+  it('gives an unknown role nothing', () => {
+    expect(permissionsFor('superuser' as Role)).toEqual([]);
+  });
+});
+
+describe('assertCan', () => {
+  it('passes silently when allowed', () => {
+    expect(() => assertCan(user('editor'), 'recap:generate')).not.toThrow();
+  });
+
+  it('throws a PermissionError naming the missing permission', () => {
+    let caught: unknown;
+    try {
+      assertCan(user('viewer'), 'recap:generate');
+    } catch (err) {
+      caught = err;
+    }
+    expect(caught).toBeInstanceOf(PermissionError);
+    expect((caught as PermissionError).permission).toBe('recap:generate');
+    expect((caught as PermissionError).message).toContain('recap:generate');
+  });
+
+  it('throws when nobody is signed in', () => {
+    expect(() => assertCan(null, 'library:readAll')).toThrow(PermissionError);
+  });
+});
+
+describe('canModifyRecap', () => {
+  const entry = { owner: 'sam' };
+
+  it('lets an admin change anyone\'s recap', () => {
+    expect(canModifyRecap(user('admin', 'alex'), entry)).toBe(true);
+    expect(canModifyRecap(user('admin', 'sam'), entry)).toBe(true);
+  });
+
+  it('lets an editor change only their own recaps', () => {
+    expect(canModifyRecap(user('editor', 'sam'), entry)).toBe(true);
+    expect(canModifyRecap(user('editor', 'alex'), entry)).toBe(false);
+  });
+
+  it('never lets a viewer change a recap, even their own', () => {
+    expect(canModifyRecap(user('viewer', 'sam'), entry)).toBe(false);
+  });
+
+  it('refuses without a user', () => {
+    expect(canModifyRecap(null, entry)).toBe(false);
+    expect(canModifyRecap(undefined, entry)).toBe(false);
+  });
+
+  it('refuses an unknown role even for the owner', () => {
+    expect(canModifyRecap({ username: 'sam', deviceId: 'device-1', role: 'superuser' as Role }, entry)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { Role, SavedRecap, User } from "../types";
+
+// Every screen gates features through these helpers rather than checking
+// roles directly, so adding a role or permission is a change in one place.
+
+export type Permission =
+  | 'recap:generate'   // run the AI and save new recaps
+  | 'recap:edit'       // duplicate or delete recaps you own
+  | 'recap:editAny'    // ...or anyone's
+  | 'library:readAll'  // browse every user's saved recaps, not just your own
+  | 'styles:edit'      // prompt templates and custom tones
+  | 'styles:manage'    // house style presets
+  | 'users:manage'     // accounts, roles and device enrollment
+  | 'usage:manage';    // usage reports, quotas and the audit log
+
+export const ROLES: Role[] = ['admin', 'editor', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ['recap:generate', 'recap:edit', 'recap:editAny', 'library:readAll', 'styles:edit', 'styles:manage', 'users:manage', 'usage:manage'],
+  editor: ['recap:generate', 'recap:edit', 'library:readAll', 'styles:edit'],
+  viewer: ['library:readAll']
+};
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super(`Your account is not allowed to do this (${permission}).`);
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+export const permissionsFor = (role: Role): readonly Permission[] => ROLE_PERMISSIONS[role] ?? [];
+
+export const can = (user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean =>
+  !!user && permissionsFor(user.role).includes(permission);
+
+/** Throws PermissionError; use at the top of any action a control could still trigger. */
+export const assertCan = (user: Pick<User, 'role'> | null | undefined, permission: Permission): void => {
+  if (!can(user, permission)) throw new PermissionError(permission);
+};
+
+export const canModifyRecap = (user: User | null | undefined, entry: Pick<SavedRecap, 'owner'>): boolean =>
+  can(user, 'recap:editAny') || (can(user, 'recap:edit') && user!.username === entry.owner);
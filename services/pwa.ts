@@ -0,0 +1,29 @@
+/// <reference types="vite-plugin-pwa/vanillajs" />
+import { registerSW } from 'virtual:pwa-register';
+
+// The service worker precaches the app shell. A new build waits until the
+// user accepts it, so nobody loses a half-written recap to a mid-session reload.
+
+type UpdateListener = (available: boolean) => void;
+
+let updateAvailable = false;
+const listeners = new Set<UpdateListener>();
+
+const updateServiceWorker = registerSW({
+  onNeedRefresh() {
+    updateAvailable = true;
+    listeners.forEach(listener => listener(true));
+  },
+  onRegisterError(err) {
+    console.warn('Service worker registration failed', err);
+  }
+});
+
+export const subscribeAppUpdate = (listener: UpdateListener): (() => void) => {
+  listeners.add(listener);
+  listener(updateAvailable);
+  return () => { listeners.delete(listener); };
+};
+
+/** Activates the waiting service worker and reloads into the new version. */
+export const applyAppUpdate = () => updateServiceWorker(true);
@@ -0,0 +1,146 @@
+import { CustomTone, HouseStyle, MovieInfo, PromptTemplate, RecapLength } from "../types";
+import { DEFAULT_LANGUAGE, findLanguage } from "./languages";
+
+export interface LengthTarget {
+  label: string;
+  summary: [number, number];           // word range
+  characterAnalysis: [number, number]; // word range
+  keyTakeaways: number;
+}
+
+// Concrete targets keep "short" and "detailed" meaningfully different.
+export const LENGTH_TARGETS: Record<RecapLength, LengthTarget> = {
+  short: { label: 'Short', summary: [80, 120], characterAnalysis: [40, 60], keyTakeaways: 3 },
+  medium: { label: 'Medium', summary: [200, 300], characterAnalysis: [80, 120], keyTakeaways: 4 },
+  detailed: { label: 'Detailed', summary: [450, 600], characterAnalysis: [150, 220], keyTakeaways: 6 }
+};
+
+export const lengthInstructions = (length: RecapLength): string => {
+  const t = LENGTH_TARGETS[length] ?? LENGTH_TARGETS.medium;
+  return `Write the summary in ${t.summary[0]}-${t.summary[1]} words and the character analysis in ${t.characterAnalysis[0]}-${t.characterAnalysis[1]} words. Give exactly ${t.keyTakeaways} key takeaways.`;
+};
+
+export const TEMPLATE_VARIABLES = [
+  'title', 'genre', 'director', 'keyPlotPoints', 'tone', 'toneDescription',
+  'includeSpoilers', 'length', 'lengthInstructions'
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export const DEFAULT_TEMPLATE_BODY = `Write a professional movie recap for the following film:
+Title: {{title}}
+Genre: {{genre}}
+Director: {{director}}
+Key Plot Points: {{keyPlotPoints}}
+Tone: {{tone}}
+Include Spoilers: {{includeSpoilers}}
+Recap Length: {{length}} — {{lengthInstructions}}
+
+The recap should be engaging and high-quality.`;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders in a template body that renderTemplate would not fill. */
+export const findUnknownVariables = (body: string): string[] =>
+  [...body.matchAll(VARIABLE_PATTERN)]
+    .map(match => match[1])
+    .filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+
+export const renderTemplate = (body: string, values: Record<TemplateVariable, string>): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as TemplateVariable] : placeholder
+  );
+
+/** Stored style pieces a prompt is built from; anything missing falls back to defaults. */
+export interface PromptContext {
+  template?: PromptTemplate;
+  tone?: CustomTone;
+  houseStyle?: HouseStyle;
+}
+
+const toneGuidance = (tone?: CustomTone): string =>
+  tone?.examples.length
+    ? `Match the voice of these example sentences:\n${tone.examples.map(e => `- ${e}`).join('\n')}`
+    : '';
+
+const houseRules = (style?: HouseStyle): string => [
+  style?.bannedPhrases.length && `Never use these phrases: ${style.bannedPhrases.map(p => `"${p}"`).join(', ')}.`,
+  style?.signOffs.length && `End the verdict with ${style.signOffs.length > 1 ? 'one of these sign-offs' : 'this sign-off'}: ${style.signOffs.map(s => `"${s}"`).join(' or ')}.`
+].filter(Boolean).join('\n');
+
+const filmBlock = (label: string, info: MovieInfo): string => `${label}:
+Title: ${info.title}
+Genre: ${info.genre}
+Director: ${info.director}
+Key Plot Points: ${info.keyPlotPoints}`;
+
+const languageInstruction = (code?: string): string => {
+  if (!code || code === DEFAULT_LANGUAGE) return '';
+  const { label } = findLanguage(code);
+  return `Write every field in ${label}. Keep the film title, character names and the JSON field names as they are.`;
+};
+
+// Tone, house rules and language, appended after the main request.
+const styleNotes = (info: MovieInfo, { tone, houseStyle }: PromptContext): string[] => [
+  tone?.description ? `Tone guidance: ${tone.description}` : '',
+  toneGuidance(tone),
+  houseRules(houseStyle),
+  languageInstruction(info.language)
+];
+
+// Shared by every provider so a recap reads the same whichever backend wrote it.
+export const buildRecapPrompt = (info: MovieInfo, { template, tone, houseStyle }: PromptContext = {}): string => {
+  const body = renderTemplate(template?.body ?? DEFAULT_TEMPLATE_BODY, {
+    title: info.title,
+    genre: info.genre,
+    director: info.director,
+    keyPlotPoints: info.keyPlotPoints,
+    tone: info.tone,
+    toneDescription: tone?.description ?? '',
+    includeSpoilers: info.includeSpoilers ? 'Yes' : 'No',
+    length: info.length,
+    lengthInstructions: lengthInstructions(info.length)
+  });
+  return [body, ...styleNotes(info, { tone, houseStyle })].filter(Boolean).join('\n\n');
+};
+
+// Versus recaps share tone, length, spoilers and language with the first film.
+export const buildVersusPrompt = (first: MovieInfo, second: MovieInfo, context: PromptContext = {}): string => {
+  const t = LENGTH_TARGETS[first.length] ?? LENGTH_TARGETS.medium;
+  const body = `Write a head-to-head comparison of two films for a movie recap audience.
+
+${filmBlock('First film', first)}
+
+${filmBlock('Second film', second)}
+
+Tone: ${first.tone}
+Include Spoilers: ${first.includeSpoilers ? 'Yes' : 'No'}
+Write the comparative summary in ${t.summary[0]}-${t.summary[1]} words and give exactly ${t.keyTakeaways} key differences.
+Set "winner" to "first", "second" or "tie".`;
+  return [body, ...styleNotes(first, context)].filter(Boolean).join('\n\n');
+};
+
+export const buildSectionPrompt = (section: string, label: string): string => `
+    Rewrite only the "${section}" field (${label}) of the recap above so it is noticeably stronger.
+    Treat every other field as fixed context and copy it unchanged.
+    Return the complete JSON object.
+  `;
+
+export const buildRefinePrompt = (instruction: string): string => `
+    Revise the recap above following this instruction from the editor:
+    "${instruction.trim()}"
+    Change only what the instruction requires and keep every other field as it is.
+    Return the complete JSON object.
+  `;
+
+export const buildTranslatePrompt = (code: string): string => {
+  const { label } = findLanguage(code);
+  return `
+    Translate the recap above into ${label}.
+    Keep every field and exactly the same number of key takeaways, in the same order.
+    Adapt the tagline so it is as short and punchy in ${label} as the original, rather than translating it word for word.
+    Keep the film title, character names and the JSON field names untranslated.
+    Copy every scorecard number unchanged; translate only its recommendedAudience text.
+    Return the complete JSON object.
+  `;
+};
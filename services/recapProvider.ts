@@ -0,0 +1,105 @@
+import { ChatMessage, GeneratedRecap, GenerateOptions, MovieInfo, ProviderId, ProviderSettings, RecapProvider, RecapRequest } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { openAiProvider, OPENAI_DEFAULT_BASE_URL } from "./openAiProvider";
+import { RecapValidationError, buildCorrectionPrompt, validateRecapText } from "./recapValidator";
+import { buildRecapPrompt } from "./recapPrompt";
+import { schemaFor } from "./recapSchema";
+import { applySpoilerGuard } from "./spoilerGuard";
+import { meteredGenerate, requestPurpose } from "./metering";
+import { ensureStylesLoaded, resolvePromptContext } from "./styleService";
+
+export const PROVIDERS: RecapProvider[] = [geminiProvider, openAiProvider, mockProvider];
+
+const SETTINGS_KEY = 'cinerecap_provider';
+
+// Retries after the first attempt when the response fails validation.
+export const MAX_CORRECTION_RETRIES = 2;
+
+export const getProvider = (id: ProviderId): RecapProvider =>
+  PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+const isProviderId = (id: unknown): id is ProviderId =>
+  PROVIDERS.some(p => p.id === id);
+
+// Build-time default, set through RECAP_PROVIDER / RECAP_MODEL (see vite.config.ts).
+export const defaultProviderSettings = (): ProviderSettings => {
+  const providerId = isProviderId(process.env.RECAP_PROVIDER) ? process.env.RECAP_PROVIDER : 'gemini';
+  return {
+    providerId,
+    model: process.env.RECAP_MODEL || getProvider(providerId).models[0],
+    baseUrl: OPENAI_DEFAULT_BASE_URL
+  };
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const defaults = defaultProviderSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (saved && isProviderId(saved.providerId) && typeof saved.model === 'string') {
+      return { ...defaults, ...saved };
+    }
+  } catch {
+    // fall through to the build defaults
+  }
+  return defaults;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Label stored alongside saved recaps, e.g. `gemini/gemini-3-flash-preview`. */
+export const describeModel = (settings: ProviderSettings): string =>
+  `${settings.providerId}/${settings.model}`;
+
+export type RunOptions = Omit<GenerateOptions, 'model' | 'baseUrl'>;
+
+export interface ConversationResult<T = GeneratedRecap> {
+  recap: T;
+  /** The request's messages plus the accepted model reply, ready for the next turn. */
+  messages: ChatMessage[];
+}
+
+/**
+ * Sends a conversation and validates the reply. Invalid replies stay in the
+ * conversation followed by a corrective turn, up to MAX_CORRECTION_RETRIES.
+ */
+export const runConversation = async <T = GeneratedRecap>(
+  request: RecapRequest,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<ConversationResult<T>> => {
+  const provider = getProvider(settings.providerId);
+  const purpose = requestPurpose(request);
+  let messages = request.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const text = await meteredGenerate(provider, { ...request, messages }, settings, {
+      ...options,
+      model: settings.model,
+      baseUrl: settings.baseUrl
+    }, { purpose, attempt });
+    try {
+      const { recap } = validateRecapText<T>(text, schemaFor(request));
+      return { recap, messages: [...messages, { role: 'model', text: JSON.stringify(recap) }] };
+    } catch (err) {
+      if (!(err instanceof RecapValidationError) || attempt >= MAX_CORRECTION_RETRIES) throw err;
+      messages = [...messages, { role: 'model', text }, { role: 'user', text: buildCorrectionPrompt(err) }];
+    }
+  }
+};
+
+export const generateMovieRecap = async (
+  info: MovieInfo,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<GeneratedRecap> => {
+  await ensureStylesLoaded();
+  const { recap } = await runConversation(
+    { info, messages: [{ role: 'user', text: buildRecapPrompt(info, resolvePromptContext(info)) }] },
+    settings,
+    options
+  );
+  return applySpoilerGuard(info, recap);
+};
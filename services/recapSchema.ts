@@ -0,0 +1,85 @@
+import { Schema, Type } from "@google/genai";
+import { RecapRequest } from "../types";
+
+const score = (description: string): Schema =>
+  ({ type: Type.NUMBER, minimum: 0, maximum: 10, description: `${description}, from 0 to 10.` });
+
+// Single source of truth for the GeneratedRecap shape. Gemini receives it as
+// `responseSchema`, other providers get it rendered into the prompt, and the
+// validator checks every response against it — keep it in step with types.ts.
+export const RECAP_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    tagline: { type: Type.STRING, description: 'A catchy one-liner for the movie.' },
+    summary: { type: Type.STRING, description: 'The main recap text.' },
+    characterAnalysis: { type: Type.STRING, description: 'Brief analysis of the main characters.' },
+    keyTakeaways: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: 'List of important themes or plot devices.' 
+    },
+    verdict: { type: Type.STRING, description: 'A final recommendation or rating sentence.' },
+    scorecard: {
+      type: Type.OBJECT,
+      description: 'Ratings consistent with the verdict.',
+      properties: {
+        overall: score('Overall rating'),
+        story: score('Story and screenplay'),
+        acting: score('Performances'),
+        visuals: score('Cinematography and design'),
+        pacing: score('Pacing and editing'),
+        confidence: { type: Type.NUMBER, minimum: 0, maximum: 1, description: 'How sure you are of these scores given the details provided, from 0 to 1.' },
+        recommendedAudience: { type: Type.STRING, description: 'Who should watch it, in a short phrase.' }
+      },
+      required: ["overall", "story", "acting", "visuals", "pacing", "confidence", "recommendedAudience"]
+    }
+  },
+  required: ["tagline", "summary", "characterAnalysis", "keyTakeaways", "verdict", "scorecard"]
+};
+
+// Library imports accept files written before the scorecard existed.
+export const IMPORTED_RECAP_SCHEMA: Schema = {
+  ...RECAP_RESPONSE_SCHEMA,
+  required: RECAP_RESPONSE_SCHEMA.required!.filter(key => key !== 'scorecard')
+};
+
+// Shape of VersusRecap; "first" and "second" follow the order the films were given in.
+export const VERSUS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    tagline: { type: Type.STRING, description: 'A catchy one-liner framing the match-up.' },
+    comparativeSummary: { type: Type.STRING, description: 'How the two films treat the same ground, compared point by point.' },
+    keyDifferences: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'The most important differences between the two films.'
+    },
+    headToHeadVerdict: { type: Type.STRING, description: 'Which film does it better and why.' },
+    winner: { type: Type.STRING, enum: ['first', 'second', 'tie'], description: 'The stronger film: "first", "second" or "tie".' }
+  },
+  required: ["tagline", "comparativeSummary", "keyDifferences", "headToHeadVerdict", "winner"]
+};
+
+/** The schema a request's reply must match. */
+export const schemaFor = (request: RecapRequest): Schema =>
+  request.versus ? VERSUS_RESPONSE_SCHEMA : RECAP_RESPONSE_SCHEMA;
+
+export const describeSchemaType = (schema: Schema): string => {
+  switch (schema.type) {
+    case Type.ARRAY: return `array of ${schema.items ? describeSchemaType(schema.items) : 'values'}s`;
+    case Type.OBJECT: return 'object';
+    case Type.INTEGER: return 'integer';
+    default: return String(schema.type ?? 'value').toLowerCase();
+  }
+};
+
+// Prompt text for providers that cannot take a response schema directly.
+export const schemaToInstructions = (schema: Schema = RECAP_RESPONSE_SCHEMA): string => {
+  const fields = Object.entries(schema.properties ?? {}).map(
+    ([key, field]) => `- "${key}" (${describeSchemaType(field)})${field.description ? `: ${field.description}` : ''}`
+  );
+  return `
+    Respond with a single JSON object and nothing else, using exactly these keys:
+    ${fields.join('\n    ')}
+  `;
+};
@@ -0,0 +1,191 @@
+import { Schema, Type } from "@google/genai";
+import { GeneratedRecap } from "../types";
+import { RECAP_RESPONSE_SCHEMA, describeSchemaType } from "./recapSchema";
+import { closeTruncatedJson } from "./partialJson";
+
+export interface SchemaIssue {
+  /** Dotted path to the offending field, `$` for the document itself. */
+  path: string;
+  message: string;
+}
+
+export class RecapValidationError extends Error {
+  issues: SchemaIssue[];
+  rawText: string;
+
+  constructor(issues: SchemaIssue[], rawText: string) {
+    super(
+      issues.length === 1
+        ? `Invalid AI response: ${formatIssue(issues[0])}.`
+        : `Invalid AI response: ${issues.length} fields failed validation.`
+    );
+    this.name = 'RecapValidationError';
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+export interface ValidationResult<T = GeneratedRecap> {
+  recap: T;
+  /** Human-readable notes on anything that was fixed up rather than rejected. */
+  repairs: string[];
+}
+
+export const formatIssue = ({ path, message }: SchemaIssue): string =>
+  `${path === '$' ? 'the response' : path} ${message}`;
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path === '$' ? key : `${path}.${key}`;
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// Splits a list the model wrote as prose ("- a\n- b") back into items.
+const splitList = (text: string): string[] =>
+  text
+    .split(/\n+|;\s*/)
+    .map(item => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean);
+
+const check = (
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: SchemaIssue[],
+  repairs: string[]
+): unknown => {
+  const expected = describeSchemaType(schema);
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `should be an object but was ${typeOf(value)}` });
+        return value;
+      }
+      const source = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(schema.properties ?? {})) {
+        const fieldPath = join(path, key);
+        if (source[key] === undefined || source[key] === null) {
+          if (schema.required?.includes(key)) issues.push({ path: fieldPath, message: 'is missing' });
+          continue;
+        }
+        out[key] = check(source[key], field, fieldPath, issues, repairs);
+      }
+      return out;
+    }
+
+    case Type.ARRAY: {
+      let list = value;
+      if (typeof value === 'string') {
+        list = splitList(value);
+        repairs.push(`${path} was a string; split it into a list`);
+      } else if (!Array.isArray(value)) {
+        list = [value];
+        repairs.push(`${path} was a single ${typeOf(value)}; wrapped it in a list`);
+      }
+      const items = (list as unknown[]).map((item, i) =>
+        schema.items ? check(item, schema.items, join(path, i), issues, repairs) : item
+      );
+      if (!items.length) issues.push({ path, message: 'is an empty list' });
+      return items;
+    }
+
+    case Type.STRING: {
+      if (typeof value === 'string') {
+        if (!value.trim()) issues.push({ path, message: 'is empty' });
+        else if (schema.enum && !schema.enum.includes(value)) {
+          const match = schema.enum.find(option => option.toLowerCase() === value.trim().toLowerCase());
+          if (match) {
+            repairs.push(`${path} was "${value}"; normalised it to "${match}"`);
+            return match;
+          }
+          issues.push({ path, message: `should be one of ${schema.enum.map(o => `"${o}"`).join(', ')} but was "${value}"` });
+        }
+        return value;
+      }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        repairs.push(`${path} was a ${typeOf(value)}; converted it to text`);
+        return String(value);
+      }
+      if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        repairs.push(`${path} was a list; joined it into text`);
+        return value.join('\n\n');
+      }
+      issues.push({ path, message: `should be ${expected} but was ${typeOf(value)}` });
+      return value;
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof n !== 'number' || Number.isNaN(n)) {
+        issues.push({ path, message: `should be ${expected === 'integer' ? 'an integer' : 'a number'} but was ${typeOf(value)}` });
+        return value;
+      }
+      if (n !== value) repairs.push(`${path} was text; converted it to a number`);
+      if ((schema.minimum !== undefined && n < schema.minimum) || (schema.maximum !== undefined && n > schema.maximum)) {
+        issues.push({ path, message: `should be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'} but was ${n}` });
+        return n;
+      }
+      return schema.type === Type.INTEGER ? Math.round(n) : n;
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        repairs.push(`${path} was text; converted it to a boolean`);
+        return value === 'true';
+      }
+      issues.push({ path, message: `should be a boolean but was ${typeOf(value)}` });
+      return value;
+    }
+
+    default:
+      return value;
+  }
+};
+
+const stripCodeFences = (text: string): string =>
+  text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+/**
+ * Parses raw model output and checks it against RECAP_RESPONSE_SCHEMA,
+ * applying light repairs (truncated JSON, scalars where lists belong...).
+ * Throws RecapValidationError listing every field that could not be fixed.
+ */
+export const validateRecapText = <T = GeneratedRecap>(
+  rawText: string,
+  schema: Schema = RECAP_RESPONSE_SCHEMA
+): ValidationResult<T> => {
+  const repairs: string[] = [];
+  const text = stripCodeFences(rawText);
+  if (!text.trim()) {
+    throw new RecapValidationError([{ path: '$', message: 'was empty' }], rawText);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const closed = closeTruncatedJson(text);
+    if (!closed) {
+      throw new RecapValidationError([{ path: '$', message: 'was not valid JSON' }], rawText);
+    }
+    repairs.push('The response was cut off; closed the truncated JSON');
+    parsed = JSON.parse(closed);
+  }
+
+  const issues: SchemaIssue[] = [];
+  const recap = check(parsed, schema, '$', issues, repairs);
+  if (issues.length) throw new RecapValidationError(issues, rawText);
+
+  return { recap: recap as T, repairs };
+};
+
+// Follow-up instruction sent when a retry is needed.
+export const buildCorrectionPrompt = (error: RecapValidationError): string => `
+    Your previous response could not be used because:
+    ${error.issues.map(issue => `- ${formatIssue(issue)}`).join('\n    ')}
+    Return the complete JSON object again with every required field filled in.
+  `;
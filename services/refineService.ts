@@ -0,0 +1,98 @@
+import { ChatMessage, GeneratedRecap, MovieInfo, ProviderSettings, RecapSection } from "../types";
+import { RunOptions, runConversation } from "./recapProvider";
+import { buildRecapPrompt, buildRefinePrompt, buildSectionPrompt, buildTranslatePrompt } from "./recapPrompt";
+import { resolvePromptContext } from "./styleService";
+import { applySpoilerGuard, redactGuarded } from "./spoilerGuard";
+
+export const SECTION_LABELS: Record<RecapSection, string> = {
+  tagline: 'Tagline',
+  summary: 'Summary',
+  characterAnalysis: 'Character Spotlight',
+  keyTakeaways: 'Key Takeaways',
+  verdict: 'Critical Verdict',
+  scorecard: 'Scorecard'
+};
+
+// Follow-up turns kept after the opening request/reply pair.
+const MAX_FOLLOW_UP_MESSAGES = 8;
+
+export interface RefineResult {
+  recap: GeneratedRecap;
+  conversation: ChatMessage[];
+}
+
+/** Opening turns for a recap that was generated earlier (or loaded from the library). */
+export const seedConversation = (info: MovieInfo, recap: GeneratedRecap): ChatMessage[] => [
+  { role: 'user', text: buildRecapPrompt(info, resolvePromptContext(info)) },
+  { role: 'model', text: JSON.stringify(recap) }
+];
+
+/** Points the latest model reply at the recap as it now stands, e.g. after an undo. */
+export const syncConversation = (conversation: ChatMessage[], recap: GeneratedRecap): ChatMessage[] => {
+  const last = conversation.map(message => message.role).lastIndexOf('model');
+  return conversation.map((message, i): ChatMessage => (i === last ? { role: 'model', text: JSON.stringify(recap) } : message));
+};
+
+// Keeps prompts bounded: the original request and reply, plus recent turns.
+const trimConversation = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.length <= 2 + MAX_FOLLOW_UP_MESSAGES
+    ? messages
+    : [...messages.slice(0, 2), ...messages.slice(-MAX_FOLLOW_UP_MESSAGES)];
+
+export const regenerateSection = async (
+  info: MovieInfo,
+  recap: GeneratedRecap,
+  section: RecapSection,
+  conversation: ChatMessage[],
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<RefineResult> => {
+  const messages = trimConversation([
+    ...conversation,
+    { role: 'user', text: buildSectionPrompt(section, SECTION_LABELS[section]) }
+  ]);
+  const result = await runConversation({ info, messages, focus: section }, settings, options);
+
+  // Models drift; pin every other section to its current value.
+  const next = applySpoilerGuard(info, { ...recap, [section]: result.recap[section] });
+  return {
+    recap: next,
+    conversation: [...result.messages.slice(0, -1), { role: 'model', text: JSON.stringify(next) }]
+  };
+};
+
+export const refineRecap = async (
+  info: MovieInfo,
+  instruction: string,
+  conversation: ChatMessage[],
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<RefineResult> => {
+  const messages = trimConversation([...conversation, { role: 'user', text: buildRefinePrompt(instruction) }]);
+  const result = await runConversation({ info, messages }, settings, options);
+  const next = applySpoilerGuard(info, result.recap);
+  return {
+    recap: next,
+    conversation: [...result.messages.slice(0, -1), { role: 'model', text: JSON.stringify(next) }]
+  };
+};
+
+/**
+ * A parallel recap in another language; the source conversation is left untouched.
+ * The model only sees the redacted recap: the spoiler check cannot match
+ * translated sentences against the original plot points.
+ */
+export const translateRecap = async (
+  info: MovieInfo,
+  recap: GeneratedRecap,
+  language: string,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<GeneratedRecap> => {
+  const messages: ChatMessage[] = [
+    ...seedConversation(info, redactGuarded(info, recap)),
+    { role: 'user', text: buildTranslatePrompt(language) }
+  ];
+  const result = await runConversation({ info, messages, translateTo: language }, settings, options);
+  return applySpoilerGuard(info, result.recap);
+};
@@ -0,0 +1,56 @@
+import { GeneratedRecap, RecapSection } from "../types";
+
+// Undo/redo is tracked per section, so reverting a tagline leaves a
+// later summary rewrite in place.
+
+export interface SectionHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export type RecapHistory = { [K in RecapSection]: SectionHistory<GeneratedRecap[K]> };
+
+const MAX_REVISIONS = 20;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const createHistory = (recap: GeneratedRecap): RecapHistory =>
+  Object.fromEntries(
+    Object.entries(recap).map(([key, value]) => [key, { past: [], present: value, future: [] }])
+  ) as RecapHistory;
+
+export const currentRecap = (history: RecapHistory): GeneratedRecap =>
+  Object.fromEntries(
+    Object.entries(history).map(([key, entry]) => [key, entry.present])
+  ) as unknown as GeneratedRecap;
+
+/** Records a new revision for every section whose value changed. */
+export const recordRevision = (history: RecapHistory, recap: GeneratedRecap): RecapHistory => {
+  const next = { ...history } as Record<string, SectionHistory<unknown>>;
+  for (const [key, value] of Object.entries(recap)) {
+    const entry = next[key];
+    if (!entry) {
+      next[key] = { past: [], present: value, future: [] };
+    } else if (!sameValue(entry.present, value)) {
+      next[key] = { past: [...entry.past, entry.present].slice(-MAX_REVISIONS), present: value, future: [] };
+    }
+  }
+  return next as RecapHistory;
+};
+
+// Sections can be absent (older recaps have no scorecard), so look them up defensively.
+export const canUndo = (history: RecapHistory, section: RecapSection) => (history[section]?.past.length ?? 0) > 0;
+export const canRedo = (history: RecapHistory, section: RecapSection) => (history[section]?.future.length ?? 0) > 0;
+
+export const undoSection = (history: RecapHistory, section: RecapSection): RecapHistory => {
+  const { past, present, future } = history[section] as SectionHistory<unknown>;
+  if (!past.length) return history;
+  return { ...history, [section]: { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] } };
+};
+
+export const redoSection = (history: RecapHistory, section: RecapSection): RecapHistory => {
+  const { past, present, future } = history[section] as SectionHistory<unknown>;
+  if (!future.length) return history;
+  return { ...history, [section]: { past: [...past, present], present: future[0], future: future.slice(1) } };
+};
@@ -0,0 +1,97 @@
+import { SavedRecap, Scorecard } from "../types";
+
+export type SubScore = 'story' | 'acting' | 'visuals' | 'pacing';
+
+export const SUB_SCORES: { key: SubScore; label: string }[] = [
+  { key: 'story', label: 'Story' },
+  { key: 'acting', label: 'Acting' },
+  { key: 'visuals', label: 'Visuals' },
+  { key: 'pacing', label: 'Pacing' }
+];
+
+export const formatScore = (score: number): string => score.toFixed(1).replace(/\.0$/, '');
+
+export const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+/** Plain-text form, used for copying and for exports. */
+export const scorecardText = (card: Scorecard): string => [
+  `Overall ${formatScore(card.overall)}/10`,
+  ...SUB_SCORES.map(({ key, label }) => `${label} ${formatScore(card[key])}`),
+  `Confidence ${formatConfidence(card.confidence)}`,
+  `Recommended for: ${card.recommendedAudience}`
+].join(' · ');
+
+// --- Dashboard aggregation ---
+
+export type ScoreDimension = 'genre' | 'director' | 'tone';
+
+export const SCORE_DIMENSIONS: { key: ScoreDimension; label: string }[] = [
+  { key: 'genre', label: 'Genre' },
+  { key: 'director', label: 'Director' },
+  { key: 'tone', label: 'Tone' }
+];
+
+/** Histogram buckets over the 0–10 overall score: [0,2), [2,4) ... [8,10]. */
+export const SCORE_BUCKETS = ['0–2', '2–4', '4–6', '6–8', '8–10'];
+
+const bucketOf = (score: number) => Math.min(SCORE_BUCKETS.length - 1, Math.floor(score / 2));
+
+export interface ScoreGroup {
+  key: string;
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  histogram: number[];
+  subMeans: Record<SubScore, number>;
+}
+
+const UNSPECIFIED = 'Unspecified';
+
+// A "Sci-Fi / Thriller" recap counts towards both genres; matching ignores case.
+const groupKeys = (entry: SavedRecap, dimension: ScoreDimension): string[] => {
+  const raw = entry.movie[dimension].trim();
+  if (!raw) return [UNSPECIFIED];
+  return dimension === 'genre' ? raw.split(/\s*[,/|]\s*/).filter(Boolean) : [raw];
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const summarize = (key: string, cards: Scorecard[]): ScoreGroup => {
+  const overall = cards.map(c => c.overall);
+  const histogram = SCORE_BUCKETS.map(() => 0);
+  overall.forEach(score => histogram[bucketOf(score)]++);
+  return {
+    key,
+    count: cards.length,
+    mean: mean(overall),
+    min: Math.min(...overall),
+    max: Math.max(...overall),
+    histogram,
+    subMeans: Object.fromEntries(SUB_SCORES.map(({ key: sub }) => [sub, mean(cards.map(c => c[sub]))])) as Record<SubScore, number>
+  };
+};
+
+/** Totals across every scored recap, or null when none has a scorecard. */
+export const summarizeScores = (entries: SavedRecap[]): ScoreGroup | null => {
+  const cards = entries.flatMap(entry => (entry.recap.scorecard ? [entry.recap.scorecard] : []));
+  return cards.length ? summarize('All', cards) : null;
+};
+
+/** Recaps without a scorecard are skipped. Largest groups come first. */
+export const groupScores = (entries: SavedRecap[], dimension: ScoreDimension): ScoreGroup[] => {
+  const groups = new Map<string, { label: string; cards: Scorecard[] }>();
+  for (const entry of entries) {
+    const card = entry.recap.scorecard;
+    if (!card) continue;
+    for (const key of groupKeys(entry, dimension)) {
+      const id = key.toLowerCase();
+      if (!groups.has(id)) groups.set(id, { label: key, cards: [] });
+      groups.get(id)!.cards.push(card);
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ label, cards }) => summarize(label, cards))
+    .sort((a, b) => b.count - a.count || b.mean - a.mean);
+};
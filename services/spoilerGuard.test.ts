@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedRecap, MovieInfo, VersusRecap } from "../types";
+import {
+  applyVersusSpoilerGuard,
+  detectSpoilers,
+  extractSpoilerCues,
+  guardStreamingRecap,
+  keywords,
+  redactSpoilers,
+  splitSentences
+} from "./spoilerGuard";
+
+const recap = (sections: Partial<GeneratedRecap>): GeneratedRecap => ({
+  tagline: '',
+  summary: '',
+  characterAnalysis: '',
+  keyTakeaways: [],
+  verdict: '',
+  ...sections
+});
+
+const movie: MovieInfo = {
+  title: 'The Sixth Sense',
+  genre: 'Thriller',
+  director: 'M. Night Shyamalan',
+  keyPlotPoints: 'TWIST: Malcolm Crowe is dead the whole time',
+  tone: 'Eerie',
+  includeSpoilers: false,
+  length: 'short'
+};
+
+describe('splitSentences', () => {
+  it('keeps terminators, closing quotes and trailing space with each sentence', () => {
+    expect(splitSentences('One. Two! "Three?" Four')).toEqual(['One. ', 'Two! ', '"Three?" ', 'Four']);
+  });
+
+  it('reproduces the input when joined', () => {
+    const text = 'He waits... and waits. Then (finally) she calls!) Done';
+    expect(splitSentences(text).join('')).toBe(text);
+  });
+
+  it('keeps punctuation that opens the text or follows a sentence', () => {
+    expect(splitSentences('...Hello there.')).toEqual(['...', 'Hello there.']);
+    expect(splitSentences('Wait. ?! Go')).toEqual(['Wait. ', '?! ', 'Go']);
+    expect(splitSentences('?!')).toEqual(['?!']);
+  });
+
+  it('returns nothing for empty text', () => {
+    expect(splitSentences('')).toEqual([]);
+  });
+});
+
+describe('keywords', () => {
+  it('drops stopwords and short words', () => {
+    expect([...keywords('The hero is in it to win')]).toEqual(['hero', 'win']);
+  });
+
+  it('trims possessives and plural/verb endings so word forms meet', () => {
+    expect([...keywords("Bob's dogs")]).toEqual(['bob', 'dog']);
+    expect(keywords('kills')).toEqual(keywords('killed'));
+  });
+});
+
+describe('extractSpoilerCues', () => {
+  it('reads marker lines, with or without a bullet', () => {
+    expect(extractSpoilerCues('Opening heist\nTWIST: Bruce was dead all along\n- ending - Cole leaves')).toEqual([
+      'Bruce was dead all along',
+      'Cole leaves'
+    ]);
+  });
+
+  it('reads inline [spoiler] tags and keeps the rest of the line out', () => {
+    expect(extractSpoilerCues('A boy sees ghosts. [spoiler]The doctor is a ghost[/spoiler]')).toEqual(['The doctor is a ghost']);
+  });
+
+  it('falls back to reveal language only when nothing is marked', () => {
+    expect(extractSpoilerCues('Heist in LA\nNeil dies at the airport\nIt turns out the tip was fake')).toEqual([
+      'Neil dies at the airport',
+      'It turns out the tip was fake'
+    ]);
+    expect(extractSpoilerCues('TWIST: the tip was fake\nNeil dies at the airport')).toEqual(['the tip was fake']);
+  });
+
+  it('returns no cues for plain plot points', () => {
+    expect(extractSpoilerCues('Heist in LA\nA detective gives chase')).toEqual([]);
+  });
+});
+
+describe('detectSpoilers', () => {
+  // Five keywords: malcolm, crowe, dead, whole, time. Half of them is 2.5, so three must appear.
+  const plotPoints = 'TWIST: Malcolm Crowe is dead the whole time';
+
+  it('flags a sentence that repeats just over half the cue', () => {
+    const flags = detectSpoilers(recap({ summary: 'A boy meets a doctor. Malcolm Crowe has been dead.' }), plotPoints);
+    expect(flags).toEqual([{
+      section: 'summary',
+      sentenceIndex: 1,
+      sentence: 'Malcolm Crowe has been dead.',
+      reason: 'Matches plot point "Malcolm Crowe is dead the whole time"'
+    }]);
+  });
+
+  it('lets a sentence that repeats just under half the cue through', () => {
+    expect(detectSpoilers(recap({ summary: 'Malcolm Crowe is a child psychologist.' }), plotPoints)).toEqual([]);
+  });
+
+  it('needs only one shared word for a one-word cue', () => {
+    const flags = detectSpoilers(recap({ verdict: 'Everything hinges on Rosebud.' }), '[spoiler]Rosebud[/spoiler]');
+    expect(flags.map(f => f.section)).toEqual(['verdict']);
+  });
+
+  it('flags reveal language even without cues', () => {
+    const flags = detectSpoilers(recap({ characterAnalysis: 'Grace is devoted. It turns out the house is haunted.' }), '');
+    expect(flags).toEqual([{
+      section: 'characterAnalysis',
+      sentenceIndex: 1,
+      sentence: 'It turns out the house is haunted.',
+      reason: 'Uses reveal/ending language'
+    }]);
+  });
+});
+
+describe('redactSpoilers', () => {
+  it('drops flagged sentences and keeps the rest verbatim', () => {
+    const original = recap({
+      tagline: 'Nothing is what it seems.',
+      summary: 'A boy sees ghosts. Malcolm Crowe has been dead. The boy learns to talk to them!',
+      verdict: 'A patient, "quiet" thriller.',
+      keyTakeaways: ['Listen to children']
+    });
+    const redacted = redactSpoilers(original, detectSpoilers(original, 'TWIST: Malcolm Crowe is dead the whole time'));
+    expect(redacted).toEqual({ ...original, summary: 'A boy sees ghosts. The boy learns to talk to them!' });
+  });
+
+  it('returns the recap unchanged when nothing is flagged', () => {
+    const original = recap({ summary: 'A boy sees ghosts.' });
+    expect(redactSpoilers(original, [])).toEqual(original);
+  });
+});
+
+describe('guardStreamingRecap', () => {
+  it('shows only finished sentences that pass the check', () => {
+    const partial = { tagline: 'I see', summary: 'A boy sees ghosts. Malcolm Crowe has been dead. Malcolm Crowe' };
+    expect(guardStreamingRecap(movie, partial)).toEqual({
+      tagline: 'I see',
+      summary: 'A boy sees ghosts.',
+      characterAnalysis: '',
+      verdict: ''
+    });
+  });
+
+  it('passes the stream through when spoilers are allowed', () => {
+    const partial = { summary: 'Malcolm Crowe has been dead. Malcolm' };
+    expect(guardStreamingRecap({ ...movie, includeSpoilers: true }, partial)).toBe(partial);
+  });
+});
+
+describe('applyVersusSpoilerGuard', () => {
+  const versus: VersusRecap = {
+    tagline: 'Two ghosts',
+    comparativeSummary: 'Both films listen to children. Malcolm Crowe has been dead, unlike anyone in Others.',
+    keyDifferences: ['One is set in Philadelphia', 'In the end Crowe was actually dead'],
+    headToHeadVerdict: 'A close call.',
+    winner: 'tie'
+  };
+  const other: MovieInfo = { ...movie, title: 'The Others', keyPlotPoints: 'A mother guards her children' };
+
+  it('drops leaking sentences and differences whatever the spoiler mode', () => {
+    expect(applyVersusSpoilerGuard(movie, other, versus)).toEqual({
+      ...versus,
+      comparativeSummary: 'Both films listen to children.',
+      keyDifferences: ['One is set in Philadelphia']
+    });
+  });
+
+  it('leaves the comparison alone when both films allow spoilers', () => {
+    expect(applyVersusSpoilerGuard({ ...movie, includeSpoilers: true }, { ...other, includeSpoilers: true }, versus)).toBe(versus);
+  });
+});
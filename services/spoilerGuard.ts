@@ -0,0 +1,165 @@
+import { GeneratedRecap, MovieInfo, VersusRecap } from "../types";
+
+// Post-generation check for spoiler-free recaps. The prompt already asks the
+// model to avoid spoilers; this catches the times it does not. Plot points
+// the user marks as twist or ending content (e.g. "TWIST: ..." or
+// "[spoiler]...[/spoiler]") are compared sentence by sentence with the
+// prose sections. Unmarked plot points are used only if they contain obvious
+// reveal language.
+
+export type SpoilerMode = 'blur' | 'strip';
+
+export const GUARDED_SECTIONS = ['summary', 'characterAnalysis', 'verdict'] as const;
+export type GuardedSection = typeof GUARDED_SECTIONS[number];
+
+export interface SpoilerFlag {
+  section: GuardedSection;
+  sentenceIndex: number;
+  sentence: string;
+  reason: string;
+}
+
+const MARKER_PATTERN = /^\s*(?:[-*•]\s*)?(twist|ending|spoiler|reveal|finale)\s*[:\-–]\s*/i;
+const INLINE_SPOILER_PATTERN = /\[spoiler\]([\s\S]*?)\[\/spoiler\]/gi;
+
+// Wording that gives away an ending on its own, whatever the plot points say.
+const REVEAL_PATTERN = /\b(turns out|it is revealed|is revealed to be|revealed that|the twist|in the end|in the final (?:scene|act|moments)|ends with|the ending|final reveal|was (?:actually|secretly) (?:dead|alive)|dies at the end)\b/i;
+
+const STOPWORDS = new Set(
+  ('a an and are as at be been but by for from has have he her his in into is it its of on or she that the their them ' +
+   'they this to was were which who will with while after before when where then than there out up about over just ' +
+   'film movie story character characters scene')
+    .split(' ')
+);
+
+// Minimum share of a cue's keywords a sentence must repeat to count as a leak.
+const MATCH_THRESHOLD = 0.5;
+const MIN_SHARED_WORDS = 2;
+
+/** Splits prose into sentences; joining the result reproduces the input exactly. */
+export const splitSentences = (text: string): string[] =>
+  text.match(/[^.!?]*[.!?]+["'”’)\]]*\s*|[^.!?]+$/g) ?? [];
+
+// Lower-cased keywords with plural/verb endings trimmed so "kills" meets "killed".
+export const keywords = (text: string): Set<string> =>
+  new Set(
+    (text.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+      .map(word => word.replace(/'s$/, ''))
+      .filter(word => word.length > 2 && !STOPWORDS.has(word))
+      .map(word => word.replace(/(ing|ed|es|s)$/, '') || word)
+  );
+
+/** Twist/ending content from the plot points, as text snippets. */
+export const extractSpoilerCues = (keyPlotPoints: string): string[] => {
+  const cues: string[] = [];
+  for (const match of keyPlotPoints.matchAll(INLINE_SPOILER_PATTERN)) cues.push(match[1].trim());
+
+  const lines = keyPlotPoints.replace(INLINE_SPOILER_PATTERN, '').split(/\n+/).map(l => l.trim()).filter(Boolean);
+  const marked = lines.filter(line => MARKER_PATTERN.test(line)).map(line => line.replace(MARKER_PATTERN, ''));
+  cues.push(...marked);
+
+  // Nothing marked explicitly: fall back to points that read like reveals.
+  if (!cues.length) cues.push(...lines.filter(line => REVEAL_PATTERN.test(line) || /\b(dies|killed|twist|ending|secretly)\b/i.test(line)));
+  return cues.filter(Boolean);
+};
+
+const matchCue = (sentence: Set<string>, cue: Set<string>): boolean => {
+  if (!cue.size) return false;
+  let shared = 0;
+  cue.forEach(word => { if (sentence.has(word)) shared++; });
+  return shared >= Math.min(MIN_SHARED_WORDS, cue.size) && shared / cue.size >= MATCH_THRESHOLD;
+};
+
+interface Cue {
+  cue: string;
+  words: Set<string>;
+}
+
+const spoilerCues = (keyPlotPoints: string): Cue[] =>
+  extractSpoilerCues(keyPlotPoints).map(cue => ({ cue, words: keywords(cue) }));
+
+/** Why a sentence gives something away, or undefined when it does not. */
+const leakReason = (sentence: string, cues: Cue[]): string | undefined => {
+  const words = keywords(sentence);
+  const hit = cues.find(({ words: cueWords }) => matchCue(words, cueWords));
+  if (hit) return `Matches plot point "${hit.cue}"`;
+  if (REVEAL_PATTERN.test(sentence)) return 'Uses reveal/ending language';
+  return undefined;
+};
+
+export const detectSpoilers = (recap: GeneratedRecap, keyPlotPoints: string): SpoilerFlag[] => {
+  const cues = spoilerCues(keyPlotPoints);
+  const flags: SpoilerFlag[] = [];
+
+  for (const section of GUARDED_SECTIONS) {
+    splitSentences(recap[section]).forEach((sentence, sentenceIndex) => {
+      const reason = leakReason(sentence, cues);
+      if (reason) flags.push({ section, sentenceIndex, sentence, reason });
+    });
+  }
+  return flags;
+};
+
+/** Drops every flagged sentence from the guarded sections. */
+export const redactSpoilers = (recap: GeneratedRecap, flags: SpoilerFlag[]): GeneratedRecap => {
+  const next = { ...recap };
+  for (const section of GUARDED_SECTIONS) {
+    const flagged = new Set(flags.filter(f => f.section === section).map(f => f.sentenceIndex));
+    if (!flagged.size) continue;
+    next[section] = splitSentences(recap[section])
+      .filter((_, i) => !flagged.has(i))
+      .join('')
+      .trim();
+  }
+  return next;
+};
+
+export const isGuarded = (info: MovieInfo): boolean => !info.includeSpoilers;
+
+const FINISHED_SENTENCE = /[.!?]["'”’)\]]*\s*$/;
+
+/**
+ * For a recap that is still streaming. Guarded sections show only finished
+ * sentences that pass the check, so a leak never appears word by word.
+ */
+export const guardStreamingRecap = (info: MovieInfo, partial: Partial<GeneratedRecap>): Partial<GeneratedRecap> => {
+  if (!isGuarded(info)) return partial;
+  const sofar: GeneratedRecap = { tagline: '', summary: '', characterAnalysis: '', keyTakeaways: [], verdict: '', ...partial };
+  const flags = detectSpoilers(sofar, info.keyPlotPoints);
+  const next = { ...partial };
+  for (const section of GUARDED_SECTIONS) {
+    const flagged = new Set(flags.filter(f => f.section === section).map(f => f.sentenceIndex));
+    next[section] = splitSentences(sofar[section])
+      .filter((sentence, i) => !flagged.has(i) && FINISHED_SENTENCE.test(sentence))
+      .join('')
+      .trim();
+  }
+  return next;
+};
+
+/** For anything that leaves the app (files, prints, speech): no blur there, so leaks are removed. */
+export const redactGuarded = (info: MovieInfo, recap: GeneratedRecap): GeneratedRecap =>
+  isGuarded(info) ? redactSpoilers(recap, detectSpoilers(recap, info.keyPlotPoints)) : recap;
+
+/** Applied to fresh output: strip mode redacts now, blur mode is left to the view. */
+export const applySpoilerGuard = (info: MovieInfo, recap: GeneratedRecap): GeneratedRecap => {
+  if (!isGuarded(info) || (info.spoilerMode ?? 'blur') !== 'strip') return recap;
+  return redactSpoilers(recap, detectSpoilers(recap, info.keyPlotPoints));
+};
+
+/**
+ * The versus view has no blur, so a comparison drops leaks whatever the
+ * spoiler mode. Only the plot points of guarded films are checked.
+ */
+export const applyVersusSpoilerGuard = (first: MovieInfo, second: MovieInfo, versus: VersusRecap): VersusRecap => {
+  const guarded = [first, second].filter(isGuarded);
+  if (!guarded.length) return versus;
+  const cues = guarded.flatMap(info => spoilerCues(info.keyPlotPoints));
+  const clean = (text: string) => splitSentences(text).filter(sentence => !leakReason(sentence, cues)).join('').trim();
+  return {
+    ...versus,
+    comparativeSummary: clean(versus.comparativeSummary),
+    keyDifferences: versus.keyDifferences.filter(item => !leakReason(item, cues)),
+    headToHeadVerdict: clean(versus.headToHeadVerdict)
+  };
+};
@@ -0,0 +1,169 @@
+import { CustomTone, GeneratedRecap, HouseStyle, MovieInfo, PromptTemplate } from "../types";
+import { STORES, createId, withStore } from "./db";
+import { DEFAULT_TEMPLATE_BODY, PromptContext } from "./recapPrompt";
+
+// Templates, custom tones and house styles are few and read on every prompt,
+// so they are kept in an in-memory cache that is refreshed after each write.
+
+export interface StyleCache {
+  templates: PromptTemplate[]; // every stored version
+  tones: CustomTone[];         // custom tones only
+  houseStyles: HouseStyle[];
+}
+
+export const DEFAULT_TEMPLATE_NAME = 'Default';
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: `${DEFAULT_TEMPLATE_NAME}@1`,
+  name: DEFAULT_TEMPLATE_NAME,
+  version: 1,
+  body: DEFAULT_TEMPLATE_BODY,
+  createdAt: 0,
+  createdBy: 'system'
+};
+
+export const BUILT_IN_TONES: CustomTone[] = [
+  { name: 'Dramatic', description: 'Weighty and emotional; lets big moments land.', examples: [] },
+  { name: 'Humorous', description: 'Light and playful without mocking the film.', examples: [] },
+  { name: 'Analytical', description: 'Measured critique focused on craft and theme.', examples: [] },
+  { name: 'Fast-paced', description: 'Short sentences, quick momentum, no digressions.', examples: [] },
+  { name: 'Suspenseful', description: 'Builds tension and withholds just enough.', examples: [] },
+  { name: 'Witty', description: 'Dry, clever phrasing with a knowing wink.', examples: [] }
+];
+
+let cache: StyleCache = { templates: [], tones: [], houseStyles: [] };
+let loaded: Promise<StyleCache> | null = null;
+
+export const loadStyles = async (): Promise<StyleCache> => {
+  const [templates, tones, houseStyles] = await Promise.all([
+    withStore<PromptTemplate[]>(STORES.templates, 'readonly', store => store.getAll()),
+    withStore<CustomTone[]>(STORES.tones, 'readonly', store => store.getAll()),
+    withStore<HouseStyle[]>(STORES.houseStyles, 'readonly', store => store.getAll())
+  ]);
+  cache = { templates, tones, houseStyles };
+  loaded = Promise.resolve(cache);
+  return cache;
+};
+
+export const ensureStylesLoaded = (): Promise<StyleCache> => loaded ?? (loaded = loadStyles());
+
+export const getStyles = (): StyleCache => cache;
+
+// --- Tones ---
+
+export const allTones = (): CustomTone[] => [...BUILT_IN_TONES, ...cache.tones];
+
+export const findTone = (name: string): CustomTone | undefined =>
+  allTones().find(tone => tone.name.toLowerCase() === name.toLowerCase());
+
+export const saveTone = async (tone: CustomTone): Promise<StyleCache> => {
+  if (BUILT_IN_TONES.some(t => t.name.toLowerCase() === tone.name.trim().toLowerCase())) {
+    throw new Error(`"${tone.name}" is a built-in tone.`);
+  }
+  await withStore(STORES.tones, 'readwrite', store => store.put({ ...tone, name: tone.name.trim() }));
+  return loadStyles();
+};
+
+export const deleteTone = async (name: string): Promise<StyleCache> => {
+  await withStore(STORES.tones, 'readwrite', store => store.delete(name));
+  return loadStyles();
+};
+
+// --- Templates ---
+
+export const templateVersions = (name: string): PromptTemplate[] =>
+  (name === DEFAULT_TEMPLATE_NAME ? [DEFAULT_TEMPLATE] : [])
+    .concat(cache.templates.filter(t => t.name === name))
+    .sort((a, b) => b.version - a.version);
+
+/** Newest version of every template, the built-in default first. */
+export const latestTemplates = (): PromptTemplate[] => {
+  const names = [DEFAULT_TEMPLATE_NAME, ...new Set(cache.templates.map(t => t.name).filter(n => n !== DEFAULT_TEMPLATE_NAME))];
+  return names.map(name => templateVersions(name)[0]);
+};
+
+export const findTemplate = (name?: string): PromptTemplate =>
+  (name && templateVersions(name)[0]) || templateVersions(DEFAULT_TEMPLATE_NAME)[0];
+
+/** Saves `body` as the next version of `name`; earlier versions are kept. */
+export const saveTemplate = async (name: string, body: string, author: string): Promise<StyleCache> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Templates need a name.');
+  const version = (templateVersions(trimmed)[0]?.version ?? 0) + 1;
+  const template: PromptTemplate = { id: `${trimmed}@${version}`, name: trimmed, version, body, createdAt: Date.now(), createdBy: author };
+  await withStore(STORES.templates, 'readwrite', store => store.put(template));
+  return loadStyles();
+};
+
+export const deleteTemplate = async (name: string): Promise<StyleCache> => {
+  for (const t of cache.templates.filter(t => t.name === name)) {
+    await withStore(STORES.templates, 'readwrite', store => store.delete(t.id));
+  }
+  return loadStyles();
+};
+
+// --- House styles ---
+
+export const findHouseStyle = (id?: string): HouseStyle | undefined =>
+  id ? cache.houseStyles.find(style => style.id === id) : undefined;
+
+export const saveHouseStyle = async (style: Omit<HouseStyle, 'id' | 'createdAt'> & Partial<HouseStyle>): Promise<StyleCache> => {
+  const record: HouseStyle = { ...style, id: style.id ?? createId(), createdAt: style.createdAt ?? Date.now() };
+  await withStore(STORES.houseStyles, 'readwrite', store => store.put(record));
+  return loadStyles();
+};
+
+export const deleteHouseStyle = async (id: string): Promise<StyleCache> => {
+  await withStore(STORES.houseStyles, 'readwrite', store => store.delete(id));
+  return loadStyles();
+};
+
+/** Copies a preset's tone, length, spoiler policy and template onto the form. */
+export const applyHouseStyle = (info: MovieInfo, style: HouseStyle): MovieInfo => ({
+  ...info,
+  tone: style.tone,
+  length: style.length,
+  includeSpoilers: style.includeSpoilers,
+  templateName: style.templateName === DEFAULT_TEMPLATE_NAME ? undefined : style.templateName,
+  houseStyleId: style.id
+});
+
+export const resolvePromptContext = (info: MovieInfo): PromptContext => {
+  const houseStyle = findHouseStyle(info.houseStyleId);
+  return {
+    template: findTemplate(info.templateName ?? houseStyle?.templateName),
+    tone: findTone(info.tone),
+    houseStyle
+  };
+};
+
+// --- Output checks ---
+
+export interface StyleViolation {
+  section: keyof GeneratedRecap;
+  message: string;
+}
+
+// The scorecard's only prose is its audience line.
+const sectionText = (value: GeneratedRecap[keyof GeneratedRecap]): string =>
+  Array.isArray(value) ? value.join('\n')
+    : typeof value === 'object' ? value.recommendedAudience
+    : String(value ?? '');
+
+export const checkHouseStyle = (recap: GeneratedRecap, style: HouseStyle): StyleViolation[] => {
+  const violations: StyleViolation[] = [];
+  for (const [section, value] of Object.entries(recap) as [keyof GeneratedRecap, GeneratedRecap[keyof GeneratedRecap]][]) {
+    const text = sectionText(value).toLowerCase();
+    for (const phrase of style.bannedPhrases) {
+      if (phrase && text.includes(phrase.toLowerCase())) {
+        violations.push({ section, message: `uses the banned phrase "${phrase}"` });
+      }
+    }
+  }
+  if (style.signOffs.length) {
+    const ending = recap.verdict.trim().replace(/["'”’]+$/, '').toLowerCase();
+    const signed = style.signOffs.some(signOff => ending.endsWith(signOff.trim().replace(/["'”’]+$/, '').toLowerCase()));
+    if (!signed) violations.push({ section: 'verdict', message: `does not end with the required sign-off` });
+  }
+  return violations;
+};
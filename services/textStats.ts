@@ -0,0 +1,11 @@
+// Silent reading pace used for the on-screen estimates.
+export const READING_WPM = 230;
+
+export const countWords = (text: string): number =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
+
+/** Whole seconds under a minute, whole minutes after that. */
+export const readingTime = (words: number): { unit: 'seconds' | 'minutes'; count: number } => {
+  const seconds = Math.round((words / READING_WPM) * 60);
+  return seconds < 60 ? { unit: 'seconds', count: Math.max(seconds, 1) } : { unit: 'minutes', count: Math.round(seconds / 60) };
+};
@@ -6,15 +6,46 @@ export interface MovieInfo {
   keyPlotPoints: string;
   tone: string;
   includeSpoilers: boolean;
-  length: 'short' | 'medium' | 'detailed';
+  /** How the spoiler guard treats leaks when spoilers are off; defaults to 'blur'. */
+  spoilerMode?: 'blur' | 'strip';
+  length: RecapLength;
+  /** Prompt template name; the latest version is used. Defaults to the built-in template. */
+  templateName?: string;
+  houseStyleId?: string;
+  /** Output language code (see OUTPUT_LANGUAGES); defaults to English. */
+  language?: string;
 }
 
+export type RecapLength = 'short' | 'medium' | 'detailed';
+
 export interface GeneratedRecap {
   tagline: string;
   summary: string;
   characterAnalysis: string;
   keyTakeaways: string[];
   verdict: string;
+  /** Missing on recaps saved before scorecards were added. */
+  scorecard?: Scorecard;
+}
+
+/** Scores run 0–10; confidence is 0–1. */
+export interface Scorecard {
+  overall: number;
+  story: number;
+  acting: number;
+  visuals: number;
+  pacing: number;
+  confidence: number;
+  recommendedAudience: string;
+}
+
+/** Head-to-head comparison of two films, e.g. an original and its remake. */
+export interface VersusRecap {
+  tagline: string;
+  comparativeSummary: string;
+  keyDifferences: string[];
+  headToHeadVerdict: string;
+  winner: 'first' | 'second' | 'tie';
 }
 
 export enum AppStatus {
@@ -24,7 +55,203 @@ export enum AppStatus {
   ERROR = 'ERROR'
 }
 
+export type Role = 'admin' | 'editor' | 'viewer';
+
+export enum JobStatus {
+  QUEUED = 'QUEUED',
+  GENERATING = 'GENERATING',
+  RETRY_WAIT = 'RETRY_WAIT',
+  COMPLETED = 'COMPLETED',
+  ERROR = 'ERROR'
+}
+
+export interface BatchJob {
+  id: string;
+  owner: string;
+  movie: MovieInfo;
+  settings: ProviderSettings;
+  status: JobStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt?: number;
+  error?: string;
+  result?: GeneratedRecap;
+}
+
 export interface User {
   username: string;
   deviceId: string;
+  role: Role;
+}
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+}
+
+export interface StoredUser {
+  username: string;
+  password: PasswordHash;
+  role: Role;
+  deviceIds: string[];
+  createdAt: number;
+}
+
+export interface DeviceRequest {
+  id: string;
+  username: string;
+  deviceId: string;
+  requestedAt: number;
+  status: 'pending' | 'approved' | 'denied';
+}
+
+export interface Session {
+  username: string;
+  deviceId: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SavedRecap {
+  id: string;
+  owner: string;
+  movie: MovieInfo;
+  recap: GeneratedRecap;
+  model: string;
+  createdAt: number;
+  /** Parallel recaps keyed by language code. */
+  translations?: Record<string, GeneratedRecap>;
+}
+
+export interface PromptTemplate {
+  id: string; // `${name}@${version}`
+  name: string;
+  version: number;
+  body: string; // {{variable}} placeholders, see TEMPLATE_VARIABLES
+  createdAt: number;
+  createdBy: string;
+}
+
+export interface CustomTone {
+  name: string;
+  description: string;
+  examples: string[];
+}
+
+export interface HouseStyle {
+  id: string;
+  name: string;
+  tone: string;
+  length: RecapLength;
+  includeSpoilers: boolean;
+  templateName: string;
+  bannedPhrases: string[];
+  /** The verdict must end with one of these. */
+  signOffs: string[];
+  createdAt: number;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  baseUrl: string; // only read by HTTP providers
+}
+
+export type RecapSection = keyof GeneratedRecap;
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface RecapRequest {
+  info: MovieInfo;
+  /** Conversation so far; the last entry is the user turn to answer. */
+  messages: ChatMessage[];
+  /** Set when only one section is being rewritten. */
+  focus?: RecapSection;
+  /** Set when the last turn asks for a translation into this language code. */
+  translateTo?: string;
+  /** Second film when asking for a VersusRecap instead of a GeneratedRecap. */
+  versus?: MovieInfo;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/** What a single provider request was for; correction retries keep the original purpose. */
+export type RequestPurpose = 'recap' | 'versus' | 'section' | 'translate' | 'refine';
+
+/** One provider request, written by the metering layer whether it succeeded or not. */
+export interface UsageRecord {
+  id: string;
+  username: string;
+  deviceId: string;
+  role: Role;
+  providerId: ProviderId;
+  model: string;
+  purpose: RequestPurpose;
+  attempt: number; // 0 for the first try, then validation retries
+  startedAt: number;
+  latencyMs: number;
+  /** Missing when the provider reported none, e.g. a request that failed. */
+  usage?: TokenUsage;
+  /** 'pending' while the request runs, or for good if the tab closed before it finished. */
+  outcome: 'pending' | 'ok' | 'error' | 'aborted';
+  error?: string;
+}
+
+/** Unset fields mean no limit. */
+export interface QuotaLimit {
+  requests?: number;
+  tokens?: number;
+}
+
+export interface QuotaRule {
+  id: string; // `role:editor` or `user:alice`
+  scope: 'role' | 'user';
+  subject: string; // role or username
+  daily: QuotaLimit;
+  monthly: QuotaLimit;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+export type AuditAction = 'login' | 'login_failed' | 'device_denied' | 'generation' | 'quota_exceeded' | 'export';
+
+export interface AuditEntry {
+  seq?: number; // assigned by IndexedDB on insert
+  at: number;
+  action: AuditAction;
+  username: string;
+  deviceId: string;
+  detail: string;
+}
+
+export interface GenerateOptions {
+  model: string;
+  baseUrl?: string;
+  /** Aborts the underlying request; the promise then rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Called with every field parsed so far as the response streams in. */
+  onPartial?: (partial: Partial<GeneratedRecap>) => void;
+  /** Called with the token counts the provider reports for the request. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface RecapProvider {
+  id: ProviderId;
+  label: string;
+  models: string[];
+  /** When true `models` is only a suggestion list and any model id is accepted. */
+  customModels: boolean;
+  /** Resolves with the raw JSON text; parsing and validation happen in recapProvider. */
+  generate(request: RecapRequest, options: GenerateOptions): Promise<string>;
 }
@@ -7,8 +7,31 @@ export default defineConfig({
   plugins: [
     react(),
     VitePWA({
-      registerType: 'autoUpdate',
+      // services/pwa.ts asks before activating a new build.
+      registerType: 'prompt',
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'mask-icon.svg'],
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        navigateFallback: 'index.html',
+        // index.html loads Tailwind, fonts and the import map from CDNs; cache
+        // them too so the library opens without a connection.
+        runtimeCaching: [
+          {
+            urlPattern: ({ url }) => ['cdn.tailwindcss.com', 'esm.sh', 'cdn-icons-png.flaticon.com'].includes(url.hostname),
+            handler: 'StaleWhileRevalidate',
+            options: { cacheName: 'cdn-assets', cacheableResponse: { statuses: [0, 200] } }
+          },
+          {
+            urlPattern: ({ url }) => url.hostname === 'fonts.googleapis.com' || url.hostname === 'fonts.gstatic.com',
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'google-fonts',
+              cacheableResponse: { statuses: [0, 200] },
+              expiration: { maxEntries: 30, maxAgeSeconds: 60 * 60 * 24 * 365 }
+            }
+          }
+        ]
+      },
       manifest: {
         name: 'CineRecap AI',
         short_name: 'CineRecap',
@@ -35,7 +58,12 @@ export default defineConfig({
   ],
   base: './',
   define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // Default recap backend: gemini | openai | mock. Users can switch in the UI.
+    'process.env.RECAP_PROVIDER': JSON.stringify(process.env.RECAP_PROVIDER),
+    'process.env.RECAP_MODEL': JSON.stringify(process.env.RECAP_MODEL),
+    'process.env.OPENAI_BASE_URL': JSON.stringify(process.env.OPENAI_BASE_URL),
+    'process.env.OPENAI_API_KEY': JSON.stringify(process.env.OPENAI_API_KEY)
   },
   build: {
     outDir: 'dist',